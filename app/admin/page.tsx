@@ -0,0 +1,55 @@
+import { getCurrentUser } from '@/lib/actions/auth'
+import { getModerationOverview } from '@/lib/actions/moderation'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import ModerationDashboard from '@/components/admin/ModerationDashboard'
+import { ADMIN_AREA_ROLE, hasRequiredRole } from '@/lib/security/roles'
+
+export default async function AdminPage() {
+    const user = await getCurrentUser()
+
+    if (!user) {
+        redirect('/auth/login')
+    }
+
+    if (!hasRequiredRole(user.role, ADMIN_AREA_ROLE)) {
+        redirect('/dashboard')
+    }
+
+    const overviewResult = await getModerationOverview('day')
+
+    return (
+        <div className="min-h-screen bg-gray-50">
+            <div className="max-w-7xl mx-auto px-6 sm:px-6 lg:px-8 py-8">
+                {/* Header */}
+                <div className="mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+                    <div>
+                        <h1 className="text-3xl font-bold text-gray-900">Moderation</h1>
+                        <p className="text-gray-600 mt-2">
+                            Review security violations, dismiss false positives and act on accounts
+                        </p>
+                    </div>
+                    <Link href="/admin/rules" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+                        Moderation rules →
+                    </Link>
+                </div>
+
+                {overviewResult.success && overviewResult.data ? (
+                    <ModerationDashboard
+                        initialOverview={overviewResult.data}
+                        canBan={hasRequiredRole(user.role, 'admin')}
+                    />
+                ) : (
+                    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 text-red-600">
+                        {overviewResult.error || 'Failed to load moderation data'}
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
+
+export const metadata = {
+    title: 'Moderation - Pulpit Pal',
+    description: 'Review security violations and moderate accounts',
+}
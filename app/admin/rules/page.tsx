@@ -0,0 +1,56 @@
+import { getCurrentUser } from '@/lib/actions/auth'
+import { getRuleSet, listRuleSets } from '@/lib/actions/ruleSets'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import RuleSetManager from '@/components/admin/RuleSetManager'
+import { ADMIN_AREA_ROLE, hasRequiredRole } from '@/lib/security/roles'
+
+export default async function RuleSetsPage() {
+    const user = await getCurrentUser()
+
+    if (!user) {
+        redirect('/auth/login')
+    }
+
+    if (!hasRequiredRole(user.role, ADMIN_AREA_ROLE)) {
+        redirect('/dashboard')
+    }
+
+    const ruleSetsResult = await listRuleSets()
+    const activeRuleSet = ruleSetsResult.data?.find(ruleSet => ruleSet.status === 'active')
+    const activeResult = activeRuleSet ? await getRuleSet(activeRuleSet.version) : null
+
+    return (
+        <div className="min-h-screen bg-gray-50">
+            <div className="max-w-7xl mx-auto px-6 sm:px-6 lg:px-8 py-8">
+                {/* Header */}
+                <div className="mb-8">
+                    <Link href="/admin" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+                        ← Back to moderation
+                    </Link>
+                    <h1 className="text-3xl font-bold text-gray-900 mt-2">Moderation rules</h1>
+                    <p className="text-gray-600 mt-2">
+                        Review rule set versions, dry-run changes against past violations and choose the active rules
+                    </p>
+                </div>
+
+                {ruleSetsResult.success && ruleSetsResult.data && activeResult?.data ? (
+                    <RuleSetManager
+                        initialRuleSets={ruleSetsResult.data}
+                        initialDefinition={activeResult.data.definition}
+                        canEdit={hasRequiredRole(user.role, 'admin')}
+                    />
+                ) : (
+                    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 text-red-600">
+                        {ruleSetsResult.error || activeResult?.error || 'Failed to load rule sets'}
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
+
+export const metadata = {
+    title: 'Moderation Rules - Pulpit Pal',
+    description: 'Manage and dry-run moderation rule sets',
+}
@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getRecentViolations, getViolationById } from '@/lib/security/violationLogger'
-import { getSession } from '@/lib/actions/auth'
+import { getRecentViolations, getViolationById } from '@/lib/security/violationQueries'
+import { requireRole } from '@/lib/security/authorization'
 
 export async function GET(request: NextRequest) {
     try {
-        // Check if user is authenticated (you might want to add admin check here)
-        const session = await getSession()
-        if (!session) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        // Violations include other users' raw input, so only admins may read them
+        const authorization = await requireRole('admin')
+        if (!authorization.authorized) {
+            return NextResponse.json({ error: authorization.error }, { status: authorization.status })
         }
 
         const { searchParams } = new URL(request.url)
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { generateTalk } from '@/lib/actions/talks'
+import type { TalkGenerationEvent, TalkQuestionnaire } from '@/lib/types/talks/generation'
+
+/**
+ * Streams talk generation as newline-delimited JSON events: pipeline stages,
+ * talk text as the provider produces it, and finally the validated result.
+ * Streamed text is unvalidated, so a failed result is preceded by a reset that
+ * tells the client to discard it.
+ */
+export async function POST(request: NextRequest) {
+    let questionnaire: TalkQuestionnaire
+
+    try {
+        questionnaire = await request.json()
+    } catch {
+        return NextResponse.json({ error: 'Invalid questionnaire data' }, { status: 400 })
+    }
+
+    if (!questionnaire || typeof questionnaire.topic !== 'string') {
+        return NextResponse.json({ error: 'Invalid questionnaire data' }, { status: 400 })
+    }
+
+    const encoder = new TextEncoder()
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            let closed = false
+            const send = (event: TalkGenerationEvent) => {
+                if (closed) return
+                try {
+                    controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`))
+                } catch {
+                    // Client disconnected; keep generating so the result is still logged server-side
+                    closed = true
+                }
+            }
+
+            try {
+                const result = await generateTalk(questionnaire, send)
+                if (!result.success) {
+                    send({ type: 'reset' })
+                }
+                send({ type: 'result', result })
+            } catch (error) {
+                console.error('Streaming talk generation error:', error)
+                send({ type: 'reset' })
+                send({
+                    type: 'result',
+                    result: {
+                        success: false,
+                        error: error instanceof Error ? error.message : 'Unknown error during talk generation'
+                    }
+                })
+            } finally {
+                if (!closed) {
+                    controller.close()
+                }
+            }
+        }
+    })
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'application/x-ndjson; charset=utf-8',
+            'Cache-Control': 'no-cache, no-transform',
+            'X-Accel-Buffering': 'no'
+        }
+    })
+}
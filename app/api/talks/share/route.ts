@@ -4,7 +4,7 @@ import { shareTalk } from '@/lib/actions/talks'
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json()
-        const { talkId, recipientIds, message } = body
+        const { talkId, recipientIds, message, permission, speakingDate } = body
 
         // Validate input
         if (!talkId || !recipientIds || !Array.isArray(recipientIds) || recipientIds.length === 0) {
@@ -15,7 +15,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Use the server action to share the talk
-        const result = await shareTalk(talkId, recipientIds, message)
+        const result = await shareTalk(talkId, recipientIds, message, permission, speakingDate || undefined)
 
         if (!result.success) {
             return NextResponse.json(
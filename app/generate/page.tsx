@@ -1,29 +1,51 @@
 'use client'
 
-import { useState, useEffect, Suspense } from 'react'
+import { useState, useEffect, useMemo, useRef, useCallback, Suspense } from 'react'
 import { useSearchParams } from 'next/navigation'
 import { toast } from 'sonner'
 import type { TalkQuestionnaire as TalkQuestionnaireData } from '@/lib/types/talks/generation'
 import TalkDisplayWrapper from '@/components/TalkDisplayWrapper'
+import TalkDisplay from '@/components/TalkDisplay'
 import { TalkGenerationBreadcrumb } from '@/components/Breadcrumb'
 import UnsavedChangesDialog from '@/components/UnsavedChangesDialog'
 import { TalkGenerationProgress } from '@/components/ui/ProgressBar'
 import TalkQuestionnaire from '@/components/TalkQuestionnaire'
+import { ContentFeedback, ContentViolation } from '@/components/ContentGuidelines'
 import { useNavigationGuard } from '@/hooks/useNavigationGuard'
 import { useGuardedNavigation } from '@/hooks/useGuardedNavigation'
-import { generateTalk } from '@/lib/actions/talks'
-import type { GeneratedTalk } from '@/lib/types/talks/generation'
+import { useTalkGenerationStream } from '@/hooks/useTalkGenerationStream'
+import { getStreamingTalkPreview } from '@/lib/utils/talkStreamPreview'
+import { TESTIMONY_WARNING_PREFIX } from '@/lib/utils/testimonyFidelity'
+import type { GeneratedTalk, StoredQuestionnaire } from '@/lib/types/talks/generation'
+import {
+    saveQuestionnaireDraft,
+    storeQuestionnaireForGeneration,
+    getStoredQuestionnaire,
+    getLatestQuestionnaireDraft,
+    deleteQuestionnaireDraft
+} from '@/lib/actions/talks'
 import { getCurrentUser } from '@/lib/actions/auth'
+import { submitViolationAppeal } from '@/lib/actions/appeals'
+
+// Delay between the last questionnaire edit and the draft being saved
+const DRAFT_SAVE_DELAY_MS = 1500
 
 function GeneratePageContent() {
     const [currentStep, setCurrentStep] = useState<'questionnaire' | 'generating' | 'display'>('questionnaire')
     const [generatedTalk, setGeneratedTalk] = useState<GeneratedTalk | null>(null)
     const [isAuthenticated, setIsAuthenticated] = useState(false)
     const [error, setError] = useState<string | null>(null)
-    const [generationProgress, setGenerationProgress] = useState(0)
-    const [generationStage, setGenerationStage] = useState<'processing' | 'generating' | 'validating' | 'complete'>('processing')
+    const [contentViolations, setContentViolations] = useState<ContentViolation[]>([])
+    const [generationQuestionnaire, setGenerationQuestionnaire] = useState<TalkQuestionnaireData | null>(null)
+    const { stage: generationStage, progress: generationProgress, streamedText, generate } = useTalkGenerationStream()
+    const [resumableDraft, setResumableDraft] = useState<StoredQuestionnaire | null>(null)
+    const [questionnaireInitialData, setQuestionnaireInitialData] = useState<TalkQuestionnaireData | undefined>(undefined)
+    const [questionnaireKey, setQuestionnaireKey] = useState('new')
+    const draftSessionIdRef = useRef<string | null>(null)
+    const draftSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
     const searchParams = useSearchParams()
     const initialTopic = searchParams.get('topic') || ''
+    const draftParam = searchParams.get('draft')
 
     // Navigation guard for unsaved talks
     const navigationGuard = useNavigationGuard({
@@ -41,44 +63,145 @@ function GeneratePageContent() {
         })
     }, [])
 
+    const loadDraft = (draft: StoredQuestionnaire) => {
+        draftSessionIdRef.current = draft.sessionId
+        setQuestionnaireInitialData(draft.questionnaire)
+        setQuestionnaireKey(draft.sessionId)
+        setResumableDraft(null)
+    }
+
+    // Load the requested draft, or offer to resume the latest unfinished one
+    useEffect(() => {
+        if (!isAuthenticated) return
+
+        if (draftParam) {
+            getStoredQuestionnaire(draftParam).then(result => {
+                if (result.success && result.data) {
+                    loadDraft(result.data)
+                } else {
+                    toast.error('Could not load questionnaire', {
+                        description: result.error
+                    })
+                }
+            })
+            return
+        }
+
+        getLatestQuestionnaireDraft().then(result => {
+            if (result.success && result.data) {
+                setResumableDraft(result.data)
+            }
+        })
+    }, [isAuthenticated, draftParam])
+
+    // Cancel any pending draft save on unmount
+    useEffect(() => {
+        return () => {
+            if (draftSaveTimerRef.current) {
+                clearTimeout(draftSaveTimerRef.current)
+            }
+        }
+    }, [])
+
+    const handleResumeDraft = () => {
+        if (resumableDraft) {
+            loadDraft(resumableDraft)
+            toast.success('Questionnaire restored', {
+                description: 'Pick up where you left off.'
+            })
+        }
+    }
+
+    const handleDiscardDraft = async () => {
+        if (!resumableDraft) return
+
+        setResumableDraft(null)
+        await deleteQuestionnaireDraft(resumableDraft.sessionId)
+    }
+
+    // Autosave the questionnaire a moment after the user stops typing
+    const handleQuestionnaireChange = useCallback((data: TalkQuestionnaireData) => {
+        if (!isAuthenticated) return
+
+        // Nothing worth resuming yet
+        if (!data.topic.trim() && !data.personalStory?.trim() && !data.testimony?.trim()) return
+
+        if (draftSaveTimerRef.current) {
+            clearTimeout(draftSaveTimerRef.current)
+        }
+
+        draftSaveTimerRef.current = setTimeout(async () => {
+            draftSaveTimerRef.current = null
+            const result = await saveQuestionnaireDraft(data, draftSessionIdRef.current || undefined)
+            if (result.success && result.data) {
+                draftSessionIdRef.current = result.data.sessionId
+            } else {
+                console.warn('Failed to save questionnaire draft:', result.error)
+            }
+        }, DRAFT_SAVE_DELAY_MS)
+    }, [isAuthenticated])
+
+    // Keep the submitted inputs so the talk can be generated again later
+    const storeSubmittedQuestionnaire = async (data: TalkQuestionnaireData) => {
+        if (draftSaveTimerRef.current) {
+            clearTimeout(draftSaveTimerRef.current)
+            draftSaveTimerRef.current = null
+        }
+
+        if (!draftSessionIdRef.current) {
+            const draft = await saveQuestionnaireDraft(data)
+            if (!draft.success || !draft.data) {
+                console.warn('Failed to store questionnaire:', draft.error)
+                return
+            }
+            draftSessionIdRef.current = draft.data.sessionId
+        }
+
+        const result = await storeQuestionnaireForGeneration(draftSessionIdRef.current, data)
+        if (!result.success) {
+            console.warn('Failed to store questionnaire:', result.error)
+        }
+    }
+
     // Update navigation guard based on talk state
     useEffect(() => {
         const hasUnsavedTalk = currentStep === 'display' && generatedTalk && !generatedTalk.id
         navigationGuard.setUnsavedChanges(!!hasUnsavedTalk)
     }, [currentStep, generatedTalk, navigationGuard.setUnsavedChanges])
 
+    // Provisional talk built from the streamed text: the first line is the title
+    const streamingTalk = useMemo<GeneratedTalk | null>(() => {
+        if (!streamedText.trim() || !generationQuestionnaire) return null
+
+        const [firstLine, ...rest] = getStreamingTalkPreview(streamedText).trimStart().split('\n')
+        return {
+            title: firstLine.replace(/^#+\s*/, '').trim(),
+            content: rest.join('\n').trim(),
+            duration: generationQuestionnaire.duration,
+            meetingType: generationQuestionnaire.meetingType,
+            sources: [],
+            questionnaire: generationQuestionnaire
+        }
+    }, [streamedText, generationQuestionnaire])
+
     const handleQuestionnaireSubmit = async (data: TalkQuestionnaireData) => {
         setCurrentStep('generating')
         setError(null)
-        setGenerationProgress(0)
-        setGenerationStage('processing')
+        setContentViolations([])
+        setGenerationQuestionnaire(data)
+        setResumableDraft(null)
+
+        if (isAuthenticated) {
+            storeSubmittedQuestionnaire(data)
+        }
 
         // Show loading toast
         const loadingToast = toast.loading('Generating your talk...', {
             description: 'Our AI is crafting a personalized talk based on your preferences. This may take a moment.'
         })
 
-        // Simulate progress updates
-        const progressInterval = setInterval(() => {
-            setGenerationProgress(prev => {
-                if (prev < 90) {
-                    return prev + Math.random() * 15
-                }
-                return prev
-            })
-        }, 500)
-
-        // Update stages
-        setTimeout(() => setGenerationStage('generating'), 1000)
-        setTimeout(() => setGenerationStage('validating'), 3000)
-
         try {
-            const result = await generateTalk(data)
-
-            // Clear progress interval
-            clearInterval(progressInterval)
-            setGenerationProgress(100)
-            setGenerationStage('complete')
+            const result = await generate(data)
 
             // Dismiss loading toast
             toast.dismiss(loadingToast)
@@ -96,11 +219,20 @@ function GeneratePageContent() {
                     description: 'Your personalized talk is ready for review. You can save it to your account or export it to Word.',
                     duration: 5000
                 })
+
+                // Let the speaker know if their testimony had to be checked or restored
+                const testimonyWarning = result.warnings?.find(warning => warning.startsWith(TESTIMONY_WARNING_PREFIX))
+                if (testimonyWarning) {
+                    toast.warning('Please review your testimony', {
+                        description: testimonyWarning.slice(TESTIMONY_WARNING_PREFIX.length).trim(),
+                        duration: 10000
+                    })
+                }
             } else {
                 const errorMessage = result.error || 'Failed to generate talk'
                 setError(errorMessage)
+                setContentViolations((result.violations || []) as ContentViolation[])
                 setCurrentStep('questionnaire')
-                setGenerationStage('processing')
 
                 // Show error toast
                 toast.error('Failed to generate talk', {
@@ -108,16 +240,12 @@ function GeneratePageContent() {
                 })
             }
         } catch (err) {
-            // Clear progress interval
-            clearInterval(progressInterval)
-
             // Dismiss loading toast
             toast.dismiss(loadingToast)
 
             const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred'
             setError(errorMessage)
             setCurrentStep('questionnaire')
-            setGenerationStage('processing')
 
             // Show error toast
             toast.error('Failed to generate talk', {
@@ -141,6 +269,16 @@ function GeneratePageContent() {
         }, 1500) // Small delay to let the success toast show
     }
 
+    const handleAppeal = async (violationId: string, note: string) => {
+        const result = await submitViolationAppeal(violationId, note)
+        if (!result.success) {
+            toast.error('Could not send your appeal', {
+                description: result.error
+            })
+        }
+        return result.success
+    }
+
     const handleError = (errorMessage: string) => {
         setError(errorMessage)
     }
@@ -152,6 +290,12 @@ function GeneratePageContent() {
         setCurrentStep('questionnaire')
         setGeneratedTalk(null)
         setError(null)
+        setContentViolations([])
+
+        // Start a fresh questionnaire with its own draft
+        draftSessionIdRef.current = null
+        setQuestionnaireInitialData(undefined)
+        setQuestionnaireKey(`new_${Date.now()}`)
     }
 
     return (
@@ -178,22 +322,70 @@ function GeneratePageContent() {
                     </div>
                 )}
 
+                {/* Flagged content, with a way to dispute each flag */}
+                {currentStep === 'questionnaire' && contentViolations.length > 0 && (
+                    <div className="mb-8">
+                        <ContentFeedback
+                            violations={contentViolations}
+                            onDismiss={() => setContentViolations([])}
+                            onAppeal={isAuthenticated ? handleAppeal : undefined}
+                        />
+                    </div>
+                )}
+
                 {/* Step Content */}
+                {currentStep === 'questionnaire' && resumableDraft && (
+                    <div className="max-w-4xl mx-auto mb-8 bg-blue-50 border border-blue-200 rounded-xl p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                        <div>
+                            <h3 className="text-sm font-medium text-blue-900">Resume your unfinished questionnaire?</h3>
+                            <p className="mt-1 text-sm text-blue-700">
+                                {resumableDraft.questionnaire.topic
+                                    ? `"${resumableDraft.questionnaire.topic}", last saved ${new Date(resumableDraft.timestamp).toLocaleString()}`
+                                    : `Last saved ${new Date(resumableDraft.timestamp).toLocaleString()}`}
+                            </p>
+                        </div>
+                        <div className="flex gap-3 flex-shrink-0">
+                            <button
+                                onClick={handleDiscardDraft}
+                                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                            >
+                                Start fresh
+                            </button>
+                            <button
+                                onClick={handleResumeDraft}
+                                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+                            >
+                                Resume
+                            </button>
+                        </div>
+                    </div>
+                )}
+
                 {currentStep === 'questionnaire' && (
                     <TalkQuestionnaire
+                        key={questionnaireKey}
                         onSubmit={handleQuestionnaireSubmit}
+                        onChange={handleQuestionnaireChange}
                         initialTopic={initialTopic}
+                        initialData={questionnaireInitialData}
                     />
                 )}
 
                 {currentStep === 'generating' && (
-                    <div className="flex items-center justify-center py-16">
-                        <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 max-w-md w-full mx-4">
-                            <TalkGenerationProgress
-                                stage={generationStage}
-                                progress={generationProgress}
-                            />
+                    <div>
+                        <div className="flex items-center justify-center py-16">
+                            <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 max-w-md w-full mx-4">
+                                <TalkGenerationProgress
+                                    stage={generationStage}
+                                    progress={generationProgress}
+                                />
+                            </div>
                         </div>
+
+                        {/* Live preview of the talk as it streams in */}
+                        {streamingTalk && (
+                            <TalkDisplay talk={streamingTalk} />
+                        )}
                     </div>
                 )}
 
@@ -0,0 +1,167 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { Bell, CheckCheck, Loader2, MessageSquare, Share2, UserCheck, CalendarDays } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { getNotifications, markNotificationsRead } from '@/lib/actions/notifications'
+import { NotificationType, UserNotification } from '@/lib/types/notifications'
+import { NOTIFICATIONS_READ_EVENT } from '@/hooks/useUnreadNotifications'
+
+const notificationIcons: Record<NotificationType, typeof Bell> = {
+    'share_received': Share2,
+    'share_responded': UserCheck,
+    'comment_added': MessageSquare,
+    'speaking_assignment': CalendarDays
+}
+
+const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    })
+}
+
+export default function NotificationsClient() {
+    const [notifications, setNotifications] = useState<UserNotification[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [isMarkingAll, setIsMarkingAll] = useState(false)
+    const router = useRouter()
+
+    const loadNotifications = useCallback(async () => {
+        try {
+            const result = await getNotifications()
+            if (result.success && result.data) {
+                setNotifications(result.data)
+            } else {
+                toast.error(result.error || 'Failed to load notifications')
+            }
+        } catch (error) {
+            console.error('Failed to load notifications:', error)
+            toast.error('Failed to load notifications')
+        } finally {
+            setIsLoading(false)
+        }
+    }, [])
+
+    useEffect(() => {
+        loadNotifications()
+    }, [loadNotifications])
+
+    const markRead = async (notificationIds?: string[]) => {
+        const result = await markNotificationsRead(notificationIds)
+        if (!result.success) {
+            toast.error(result.error || 'Failed to update notifications')
+            return false
+        }
+
+        setNotifications(prev => prev.map(notification =>
+            !notificationIds || notificationIds.includes(notification.id)
+                ? { ...notification, read: true }
+                : notification
+        ))
+        window.dispatchEvent(new Event(NOTIFICATIONS_READ_EVENT))
+        return true
+    }
+
+    const handleMarkAllRead = async () => {
+        setIsMarkingAll(true)
+        try {
+            await markRead()
+        } catch (error) {
+            console.error('Failed to mark notifications read:', error)
+            toast.error('Failed to update notifications')
+        } finally {
+            setIsMarkingAll(false)
+        }
+    }
+
+    const handleOpen = async (notification: UserNotification) => {
+        try {
+            if (!notification.read) {
+                await markRead([notification.id])
+            }
+        } catch (error) {
+            console.error('Failed to mark notification read:', error)
+        }
+
+        if (notification.link) {
+            router.push(notification.link)
+        }
+    }
+
+    if (isLoading) {
+        return (
+            <div className="space-y-3">
+                <Skeleton className="h-20 w-full" />
+                <Skeleton className="h-20 w-full" />
+                <Skeleton className="h-20 w-full" />
+            </div>
+        )
+    }
+
+    if (notifications.length === 0) {
+        return (
+            <Card>
+                <CardContent className="py-12 text-center">
+                    <Bell className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-600">You&apos;re all caught up. New shares and comments will show up here.</p>
+                </CardContent>
+            </Card>
+        )
+    }
+
+    const unreadCount = notifications.filter(notification => !notification.read).length
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-600">
+                    {unreadCount > 0 ? `${unreadCount} unread` : 'No unread notifications'}
+                </p>
+                <Button variant="outline" size="sm" onClick={handleMarkAllRead} disabled={unreadCount === 0 || isMarkingAll}>
+                    {isMarkingAll
+                        ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        : <CheckCheck className="h-4 w-4 mr-2" />}
+                    Mark all read
+                </Button>
+            </div>
+
+            <div className="space-y-2">
+                {notifications.map(notification => {
+                    const Icon = notificationIcons[notification.type] || Bell
+
+                    return (
+                        <button
+                            key={notification.id}
+                            onClick={() => handleOpen(notification)}
+                            className={`w-full flex items-start gap-3 p-4 rounded-xl border text-left transition-colors ${notification.read
+                                ? 'bg-white border-gray-100 hover:bg-gray-50'
+                                : 'bg-blue-50 border-blue-100 hover:bg-blue-100'
+                                }`}
+                        >
+                            <Icon className={`h-5 w-5 mt-0.5 shrink-0 ${notification.read ? 'text-gray-400' : 'text-blue-600'}`} />
+                            <div className="flex-1 min-w-0">
+                                <p className={`text-gray-900 ${notification.read ? '' : 'font-semibold'}`}>
+                                    {notification.title}
+                                </p>
+                                {notification.body && (
+                                    <p className="text-sm text-gray-600 mt-1 line-clamp-2">{notification.body}</p>
+                                )}
+                                <p className="text-xs text-gray-500 mt-1">{formatDate(notification.createdAt)}</p>
+                            </div>
+                            {!notification.read && (
+                                <span className="h-2.5 w-2.5 mt-2 rounded-full bg-blue-600 shrink-0" aria-label="Unread" />
+                            )}
+                        </button>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
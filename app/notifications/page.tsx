@@ -0,0 +1,34 @@
+import { getCurrentUser } from '@/lib/actions/auth'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import NotificationsClient from './NotificationsClient'
+
+export default async function NotificationsPage() {
+    const user = await getCurrentUser()
+
+    if (!user) {
+        redirect('/auth/login')
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-50">
+            <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+                {/* Header */}
+                <div className="mb-6 sm:mb-8">
+                    <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Notifications</h1>
+                    <p className="text-gray-600 mt-1">
+                        Shares, responses and comments on your talks. Choose what you get by email in{' '}
+                        <Link href="/settings" className="text-blue-600 hover:text-blue-700">settings</Link>.
+                    </p>
+                </div>
+
+                <NotificationsClient />
+            </div>
+        </div>
+    )
+}
+
+export const metadata = {
+    title: 'Notifications - Pulpit Pal',
+    description: 'Your shares, responses and comments',
+}
@@ -3,6 +3,7 @@ import { redirect } from 'next/navigation'
 import Link from 'next/link'
 import ProfileUpdateForm from '@/components/ProfileUpdateForm'
 import PasswordChangeForm from '@/components/PasswordChangeForm'
+import NotificationPreferencesForm from '@/components/NotificationPreferencesForm'
 
 export default async function SettingsPage() {
     const user = await getCurrentUser()
@@ -38,6 +39,9 @@ export default async function SettingsPage() {
                     {/* Security Settings */}
                     <PasswordChangeForm />
 
+                    {/* Notification Settings */}
+                    <NotificationPreferencesForm />
+
                     {/* Talk Preferences */}
                     <div className="bg-white rounded-2xl shadow-sm border border-gray-100">
                         <div className="p-4 sm:p-6 border-b border-gray-100">
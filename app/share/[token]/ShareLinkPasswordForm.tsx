@@ -0,0 +1,72 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Lock, Loader2 } from 'lucide-react'
+import { unlockShareLink } from '@/lib/actions/shareLinks'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface ShareLinkPasswordFormProps {
+    token: string
+}
+
+export default function ShareLinkPasswordForm({ token }: ShareLinkPasswordFormProps) {
+    const [password, setPassword] = useState('')
+    const [error, setError] = useState<string | null>(null)
+    const [isUnlocking, setIsUnlocking] = useState(false)
+    const router = useRouter()
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+
+        setIsUnlocking(true)
+        setError(null)
+        try {
+            const result = await unlockShareLink(token, password)
+
+            if (result.success) {
+                router.refresh()
+            } else {
+                setError(result.error || 'Failed to open link')
+            }
+        } catch {
+            setError('An unexpected error occurred')
+        } finally {
+            setIsUnlocking(false)
+        }
+    }
+
+    return (
+        <form
+            onSubmit={handleSubmit}
+            className="max-w-md w-full bg-white rounded-2xl shadow-xl border border-gray-100 p-8 space-y-4"
+        >
+            <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto">
+                <Lock className="w-8 h-8 text-blue-600" />
+            </div>
+            <h1 className="text-2xl font-semibold text-gray-900 text-center">Password required</h1>
+            <p className="text-gray-600 text-center">
+                The author protected this talk with a password.
+            </p>
+
+            <div className="space-y-2">
+                <Label htmlFor="share-link-password">Password</Label>
+                <Input
+                    id="share-link-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoFocus
+                />
+                {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+
+            <Button type="submit" className="w-full" disabled={!password || isUnlocking}>
+                {isUnlocking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                View talk
+            </Button>
+        </form>
+    )
+}
@@ -0,0 +1,68 @@
+import { notFound } from 'next/navigation'
+import { Link2Off } from 'lucide-react'
+import { getPublicSharedTalk } from '@/lib/actions/shareLinks'
+import TalkDisplay from '@/components/TalkDisplay'
+import ShareLinkPasswordForm from './ShareLinkPasswordForm'
+
+interface SharedLinkPageProps {
+    params: Promise<{ token: string }>
+}
+
+// Public, read-only view of a talk for people without an account.
+// Deliberately outside the protected routes in proxy.ts.
+export default async function SharedLinkPage({ params }: SharedLinkPageProps) {
+    const { token } = await params
+    const result = await getPublicSharedTalk(token)
+
+    if (!result.success || !result.data) {
+        notFound()
+    }
+
+    const shared = result.data
+
+    if (shared.status === 'unavailable') {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+                <div className="max-w-md w-full bg-white rounded-2xl shadow-xl border border-gray-100 p-8 text-center">
+                    <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-6">
+                        <Link2Off className="w-8 h-8 text-gray-500" />
+                    </div>
+                    <h1 className="text-2xl font-semibold text-gray-900 mb-4">Link unavailable</h1>
+                    <p className="text-gray-600 leading-relaxed">
+                        This link has expired or been turned off by the talk&apos;s author.
+                        Ask them for a new link.
+                    </p>
+                </div>
+            </div>
+        )
+    }
+
+    if (shared.status === 'password_required') {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+                <ShareLinkPasswordForm token={token} />
+            </div>
+        )
+    }
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 py-12">
+            <div className="max-w-6xl mx-auto px-6 sm:px-6 lg:px-8">
+                <p className="max-w-4xl mx-auto mb-6 text-sm text-gray-600">
+                    Shared by {shared.authorName} &middot; Read-only &middot; Link expires {new Date(shared.expiresAt).toLocaleDateString('en-US', {
+                        year: 'numeric',
+                        month: 'short',
+                        day: 'numeric'
+                    })}
+                </p>
+                <TalkDisplay talk={shared.talk} />
+            </div>
+        </div>
+    )
+}
+
+export const metadata = {
+    title: 'Shared Talk - Pulpit Pal',
+    description: 'A talk shared with you',
+    robots: { index: false, follow: false }
+}
@@ -2,6 +2,7 @@ import { getCurrentUser } from '@/lib/actions/auth'
 import { getSavedTalkById } from '@/lib/actions/talks'
 import { redirect, notFound } from 'next/navigation'
 import TalkEditClient from './TalkEditClient'
+import { canEditTalk } from '@/lib/utils/talkAccess'
 
 
 interface EditTalkPageProps {
@@ -23,6 +24,11 @@ export default async function EditTalkPage({ params }: EditTalkPageProps) {
         notFound()
     }
 
+    // Collaborators who can only view or comment are sent to the read-only page
+    if (!canEditTalk(talkResult.data.access)) {
+        redirect(`/talk/${id}`)
+    }
+
     return (
         <div className="min-h-screen bg-gray-50">
             <div className="max-w-4xl mx-auto px-6 sm:px-6 lg:px-8 py-8">
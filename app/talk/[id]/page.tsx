@@ -2,6 +2,7 @@ import { notFound, redirect } from 'next/navigation'
 import { getCurrentUser } from '@/lib/actions/auth'
 import { getSavedTalkById } from '@/lib/actions/talks'
 import TalkDisplayWrapper from '@/components/TalkDisplayWrapper'
+import { canEditTalk } from '@/lib/utils/talkAccess'
 
 interface TalkPageProps {
     params: Promise<{ id: string }>
@@ -15,7 +16,7 @@ export default async function TalkPage({ params }: TalkPageProps) {
         redirect('/auth/login')
     }
 
-    // Get the saved talk
+    // Get the saved talk, owned by the user or shared with them
     const result = await getSavedTalkById(id)
 
     if (!result.success || !result.data) {
@@ -28,7 +29,7 @@ export default async function TalkPage({ params }: TalkPageProps) {
                 <TalkDisplayWrapper
                     talk={result.data}
                     isAuthenticated={true}
-                    showManagementActions={true}
+                    showManagementActions={canEditTalk(result.data.access)}
                     className="mb-8"
                 />
             </div>
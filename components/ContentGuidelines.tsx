@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Textarea } from '@/components/ui/textarea'
 import { AlertCircle, CheckCircle, Info, Lightbulb, X } from 'lucide-react'
 
 export interface ContentGuidelineProps {
@@ -17,12 +18,14 @@ export interface ContentViolation {
  severity: 'low' | 'medium' | 'high' | 'critical'
  message: string
  suggestions?: string[]
+ violationId?: string // Logged violation the user can appeal
 }
 
 export interface ContentFeedbackProps {
  violations: ContentViolation[]
  onDismiss?: () => void
  showSuggestions?: boolean
+ onAppeal?: (violationId: string, note: string) => Promise<boolean> // Resolves true once the appeal is recorded
 }
 
 const guidelines = [
@@ -147,10 +150,70 @@ export function ContentGuidelines({ showInline = false, className = '' }: Conten
  )
 }
 
+/**
+ * Lets the user dispute a single flag with a short explanation
+ */
+function ViolationAppealForm({ violationId, onAppeal }: { violationId: string; onAppeal: NonNullable<ContentFeedbackProps['onAppeal']> }) {
+ const [isOpen, setIsOpen] = useState(false)
+ const [note, setNote] = useState('')
+ const [isSubmitting, setIsSubmitting] = useState(false)
+ const [isSubmitted, setIsSubmitted] = useState(false)
+
+ if (isSubmitted) {
+ return (
+ <p className="text-sm text-green-700 flex items-center gap-1">
+ <CheckCircle className="h-4 w-4" />
+ Thanks. A moderator will review this flag.
+ </p>
+ )
+ }
+
+ if (!isOpen) {
+ return (
+ <button
+ onClick={() => setIsOpen(true)}
+ className="text-sm text-gray-600 underline hover:text-gray-800"
+ >
+ I think this was flagged incorrectly
+ </button>
+ )
+ }
+
+ const handleSubmit = async () => {
+ setIsSubmitting(true)
+ try {
+ setIsSubmitted(await onAppeal(violationId, note))
+ } finally {
+ setIsSubmitting(false)
+ }
+ }
+
+ return (
+ <div className="space-y-2">
+ <Textarea
+ value={note}
+ onChange={(e) => setNote(e.target.value)}
+ placeholder="Tell us what you meant and why this shouldn't have been flagged"
+ maxLength={1000}
+ rows={3}
+ className="bg-white"
+ />
+ <div className="flex gap-2">
+ <Button size="sm" onClick={handleSubmit} disabled={isSubmitting || note.trim().length < 10}>
+ {isSubmitting ? 'Sending...' : 'Send for review'}
+ </Button>
+ <Button size="sm" variant="ghost" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+ Cancel
+ </Button>
+ </div>
+ </div>
+ )
+}
+
 /**
  * Content Feedback Component for displaying violations and suggestions
  */
-export function ContentFeedback({ violations, onDismiss, showSuggestions = true }: ContentFeedbackProps) {
+export function ContentFeedback({ violations, onDismiss, showSuggestions = true, onAppeal }: ContentFeedbackProps) {
  if (violations.length === 0) return null
 
  const getSeverityColor = (severity: string) => {
@@ -298,6 +361,10 @@ export function ContentFeedback({ violations, onDismiss, showSuggestions = true
  </ul>
  </div>
  )}
+
+ {onAppeal && violation.violationId && (
+ <ViolationAppealForm violationId={violation.violationId} onAppeal={onAppeal} />
+ )}
  </div>
  </div>
  </div>
@@ -4,17 +4,19 @@ import Link from 'next/link'
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet'
 import { Button } from '@/components/ui/button'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
-import { BookOpen, Menu, User, Settings, LayoutDashboard, Plus, Share2 } from 'lucide-react'
+import { BookOpen, Menu, User, Settings, LayoutDashboard, Plus, Share2, ShieldAlert, Bell } from 'lucide-react'
 import LogoutButton from './auth/LogoutButton'
 import { BaseUser } from '@/lib/types/auth/user'
+import { ADMIN_AREA_ROLE, hasRequiredRole } from '@/lib/security/roles'
 import { MobileNavigationProps } from '@/lib/types/components/navigation'
 
 
 interface MobileNavigationDrawerProps extends Omit<MobileNavigationProps, 'items'> {
     user: BaseUser | null
+    unreadCount?: number
 }
 
-export default function MobileNavigationDrawer({ user, isOpen, onOpenChange }: MobileNavigationDrawerProps) {
+export default function MobileNavigationDrawer({ user, unreadCount = 0, isOpen, onOpenChange }: MobileNavigationDrawerProps) {
     const handleLinkClick = () => {
         onOpenChange(false)
     }
@@ -25,10 +27,13 @@ export default function MobileNavigationDrawer({ user, isOpen, onOpenChange }: M
                 <Button
                     variant="ghost"
                     size="icon"
-                    className="md:hidden text-gray-700 hover:text-blue-600 focus:text-blue-600"
-                    aria-label="Open navigation menu"
+                    className="md:hidden relative text-gray-700 hover:text-blue-600 focus:text-blue-600"
+                    aria-label={unreadCount > 0 ? `Open navigation menu (${unreadCount} unread notifications)` : 'Open navigation menu'}
                 >
                     <Menu className="h-6 w-6" />
+                    {unreadCount > 0 && (
+                        <span className="absolute top-1 right-1 h-2.5 w-2.5 rounded-full bg-red-600" />
+                    )}
                 </Button>
             </SheetTrigger>
             <SheetContent side="right" className="w-80 sm:w-96">
@@ -92,6 +97,31 @@ export default function MobileNavigationDrawer({ user, isOpen, onOpenChange }: M
                                     <span>Shared Talks</span>
                                 </Link>
 
+                                <Link
+                                    href="/notifications"
+                                    onClick={handleLinkClick}
+                                    className="flex items-center space-x-3 p-3 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors"
+                                >
+                                    <Bell className="h-5 w-5" />
+                                    <span className="flex-1">Notifications</span>
+                                    {unreadCount > 0 && (
+                                        <span className="min-w-[1.5rem] h-6 px-2 rounded-full bg-red-600 text-white text-xs font-semibold flex items-center justify-center">
+                                            {unreadCount > 99 ? '99+' : unreadCount}
+                                        </span>
+                                    )}
+                                </Link>
+
+                                {hasRequiredRole(user.role, ADMIN_AREA_ROLE) && (
+                                    <Link
+                                        href="/admin"
+                                        onClick={handleLinkClick}
+                                        className="flex items-center space-x-3 p-3 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors"
+                                    >
+                                        <ShieldAlert className="h-5 w-5" />
+                                        <span>Moderation</span>
+                                    </Link>
+                                )}
+
                                 <Link
                                     href="/settings"
                                     onClick={handleLinkClick}
@@ -1,7 +1,7 @@
 "use client"
 
 import * as React from "react"
-import { User, MessageSquare, Eye } from "lucide-react"
+import { User, MessageSquare, Eye, Users } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -10,6 +10,8 @@ import { toast } from "sonner"
 import { getSharedTalksByUser } from "@/lib/actions/talks"
 import { SharedTalkDetails } from "@/lib/types/talks/sharing"
 import { getMeetingTypeLabel } from "@/lib/utils/meetingTypes"
+import { formatSpeakingDate, getSharePermissionLabel } from "@/lib/utils/talkAccess"
+import { TalkAccessPanel } from "./TalkAccessPanel"
 
 
 
@@ -22,9 +24,12 @@ function MySharedTalks() {
         loadSharedTalks()
     }, [])
 
-    const loadSharedTalks = async () => {
+    // Refreshes after changes in the access panel skip the loading state so its dialog stays open
+    const loadSharedTalks = async (showLoading = true) => {
         try {
-            setIsLoading(true)
+            if (showLoading) {
+                setIsLoading(true)
+            }
             const result = await getSharedTalksByUser()
 
             if (result.success && result.shares) {
@@ -58,6 +63,8 @@ function MySharedTalks() {
                 return 'destructive'
             case 'pending':
                 return 'secondary'
+            case 'revoked':
+                return 'outline'
             default:
                 return 'outline'
         }
@@ -105,7 +112,7 @@ function MySharedTalks() {
         <div className="space-y-4">
             <div className="flex items-center justify-between">
                 <h2 className="text-2xl font-bold">My Shared Talks</h2>
-                <Button variant="outline" onClick={loadSharedTalks} disabled={isLoading}>
+                <Button variant="outline" onClick={() => loadSharedTalks()} disabled={isLoading}>
                     Refresh
                 </Button>
             </div>
@@ -116,6 +123,7 @@ function MySharedTalks() {
                     const pendingCount = shares.filter(s => s.status === 'pending').length
                     const acceptedCount = shares.filter(s => s.status === 'accepted').length
                     const declinedCount = shares.filter(s => s.status === 'declined').length
+                    const revokedCount = shares.filter(s => s.status === 'revoked').length
 
                     return (
                         <Card key={talkId}>
@@ -137,6 +145,9 @@ function MySharedTalks() {
                                         {declinedCount > 0 && (
                                             <Badge variant="destructive">{declinedCount} declined</Badge>
                                         )}
+                                        {revokedCount > 0 && (
+                                            <Badge variant="outline">{revokedCount} revoked</Badge>
+                                        )}
                                     </div>
                                 </div>
                             </CardHeader>
@@ -149,8 +160,8 @@ function MySharedTalks() {
                                         <p>Meeting Type: {getMeetingTypeLabel(talk.meetingType)}</p>
                                     </div>
 
-                                    {/* Preview button */}
-                                    <div className="flex items-center justify-between">
+                                    {/* Preview and access buttons */}
+                                    <div className="flex items-center space-x-2">
                                         <Dialog>
                                             <DialogTrigger asChild>
                                                 <Button variant="outline" size="sm">
@@ -176,6 +187,24 @@ function MySharedTalks() {
                                                 </div>
                                             </DialogContent>
                                         </Dialog>
+
+                                        <Dialog>
+                                            <DialogTrigger asChild>
+                                                <Button variant="outline" size="sm">
+                                                    <Users className="h-4 w-4 mr-2" />
+                                                    Manage Access
+                                                </Button>
+                                            </DialogTrigger>
+                                            <DialogContent className="sm:max-w-[560px] max-h-[80vh] overflow-y-auto">
+                                                <DialogHeader>
+                                                    <DialogTitle>Who Has Access</DialogTitle>
+                                                    <DialogDescription>
+                                                        People you&apos;ve shared &quot;{talk.title}&quot; with
+                                                    </DialogDescription>
+                                                </DialogHeader>
+                                                <TalkAccessPanel talkId={talkId} onChange={() => loadSharedTalks(false)} />
+                                            </DialogContent>
+                                        </Dialog>
                                     </div>
 
                                     {/* List of recipients */}
@@ -201,17 +230,35 @@ function MySharedTalks() {
 
                                                     <div className="flex items-center space-x-3">
                                                         <div className="text-right">
-                                                            <Badge variant={getStatusBadgeVariant(share.status)}>
-                                                                {share.status.charAt(0).toUpperCase() + share.status.slice(1)}
-                                                            </Badge>
+                                                            <div className="flex items-center justify-end space-x-2">
+                                                                <Badge variant="outline">{getSharePermissionLabel(share.permission)}</Badge>
+                                                                <Badge variant={getStatusBadgeVariant(share.status)}>
+                                                                    {share.status.charAt(0).toUpperCase() + share.status.slice(1)}
+                                                                </Badge>
+                                                            </div>
                                                             <p className="text-xs text-muted-foreground mt-1">
                                                                 Shared {formatDate(share.createdAt)}
                                                             </p>
+                                                            {new Date(share.sentAt) > new Date(share.createdAt) && (
+                                                                <p className="text-xs text-muted-foreground">
+                                                                    Sent again {formatDate(share.sentAt)}
+                                                                </p>
+                                                            )}
+                                                            {share.speakingDate && (
+                                                                <p className="text-xs text-muted-foreground">
+                                                                    Asked to speak {formatSpeakingDate(share.speakingDate)}
+                                                                </p>
+                                                            )}
                                                             {share.respondedAt && (
                                                                 <p className="text-xs text-muted-foreground">
                                                                     Responded {formatDate(share.respondedAt)}
                                                                 </p>
                                                             )}
+                                                            {share.revokedAt && (
+                                                                <p className="text-xs text-muted-foreground">
+                                                                    Revoked {formatDate(share.revokedAt)}
+                                                                </p>
+                                                            )}
                                                         </div>
                                                     </div>
                                                 </div>
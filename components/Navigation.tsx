@@ -5,14 +5,17 @@ import LogoutButton from "./auth/LogoutButton"
 import MobileNavigationDrawer from "./MobileNavigationDrawer"
 import { useNavigation } from "@/hooks/useNavigation"
 import { useAuth } from "@/hooks/useAuth"
+import { useUnreadNotifications } from "@/hooks/useUnreadNotifications"
 import { Button } from "@/components/ui/button"
-import { BookOpen } from "lucide-react"
+import { BookOpen, Bell } from "lucide-react"
 import { usePathname } from "next/navigation"
+import { ADMIN_AREA_ROLE, hasRequiredRole } from "@/lib/security/roles"
 
 function Navigation() {
   const { user, loading } = useAuth()
   const { isMobileMenuOpen, toggleMobileMenu } = useNavigation()
   const pathname = usePathname()
+  const { unreadCount } = useUnreadNotifications(!!user)
 
   if (loading) {
     return (
@@ -76,6 +79,30 @@ function Navigation() {
                       Shared Talks
                     </Link>
                   </Button>
+                  {hasRequiredRole(user.role, ADMIN_AREA_ROLE) && (
+                    <Button variant="ghost" asChild>
+                      <Link
+                        href="/admin"
+                        className={`${pathname.startsWith("/admin") ? "text-blue-500 font-bold" : "text-gray-700"} hover:text-blue-600 active font-medium`}
+                      >
+                        Moderation
+                      </Link>
+                    </Button>
+                  )}
+                  <Button variant="ghost" asChild>
+                    <Link
+                      href="/notifications"
+                      className={`${pathname === "/notifications" ? "text-blue-500" : "text-gray-700"} hover:text-blue-600 relative`}
+                      aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+                    >
+                      <Bell className="h-5 w-5" />
+                      {unreadCount > 0 && (
+                        <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-semibold flex items-center justify-center">
+                          {unreadCount > 99 ? "99+" : unreadCount}
+                        </span>
+                      )}
+                    </Link>
+                  </Button>
                   <Button variant="ghost" asChild>
                     <Link
                       href="/settings"
@@ -111,6 +138,7 @@ function Navigation() {
           <div className="md:hidden">
             <MobileNavigationDrawer
               user={user}
+              unreadCount={unreadCount}
               isOpen={isMobileMenuOpen}
               onOpenChange={toggleMobileMenu}
             />
@@ -0,0 +1,110 @@
+'use client'
+
+import { useState, useEffect, useTransition } from 'react'
+import { getNotificationEmailTypes, updateNotificationEmailTypes } from '@/lib/actions/notifications'
+import { NotificationType } from '@/lib/types/notifications'
+import { NOTIFICATION_TYPES, getNotificationTypeLabel, getNotificationTypeDescription } from '@/lib/utils/notificationTypes'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { FormLoadingOverlay } from '@/components/ui/LoadingOverlay'
+
+export default function NotificationPreferencesForm() {
+    const [emailTypes, setEmailTypes] = useState<NotificationType[]>([])
+    const [isLoaded, setIsLoaded] = useState(false)
+    const [isPending, startTransition] = useTransition()
+    const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+    useEffect(() => {
+        const loadPreferences = async () => {
+            try {
+                const result = await getNotificationEmailTypes()
+                if (result.success && result.data) {
+                    setEmailTypes(result.data)
+                } else {
+                    setMessage({ type: 'error', text: result.error || 'Failed to load notification preferences' })
+                }
+            } catch {
+                setMessage({ type: 'error', text: 'An unexpected error occurred' })
+            } finally {
+                setIsLoaded(true)
+            }
+        }
+
+        loadPreferences()
+    }, [])
+
+    const toggleType = (type: NotificationType) => {
+        setMessage(null)
+        setEmailTypes(prev => prev.includes(type)
+            ? prev.filter(t => t !== type)
+            : [...prev, type])
+    }
+
+    const handleSave = () => {
+        startTransition(async () => {
+            try {
+                const result = await updateNotificationEmailTypes(emailTypes)
+
+                if (result.success) {
+                    setMessage({ type: 'success', text: 'Notification preferences saved!' })
+                } else {
+                    setMessage({ type: 'error', text: result.error || 'Failed to save notification preferences' })
+                }
+            } catch {
+                setMessage({ type: 'error', text: 'An unexpected error occurred' })
+            }
+        })
+    }
+
+    return (
+        <FormLoadingOverlay isLoading={isPending} loadingText="Saving preferences...">
+            <Card>
+                <CardHeader>
+                    <CardTitle>Email Notifications</CardTitle>
+                    <CardDescription>
+                        Everything shows up in your notification center. Choose what you also want by email.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {message && (
+                        <div className={`mb-4 p-4 rounded-lg ${message.type === 'success'
+                            ? 'bg-green-50 text-green-700 border border-green-200'
+                            : 'bg-red-50 text-red-700 border border-red-200'
+                            }`}>
+                            {message.text}
+                        </div>
+                    )}
+
+                    <div className="space-y-3">
+                        {NOTIFICATION_TYPES.map(type => (
+                            <label
+                                key={type}
+                                htmlFor={`email-${type}`}
+                                className="flex items-start gap-3 p-4 rounded-xl border border-gray-200 cursor-pointer hover:bg-gray-50 transition-colors"
+                            >
+                                <input
+                                    type="checkbox"
+                                    id={`email-${type}`}
+                                    checked={emailTypes.includes(type)}
+                                    onChange={() => toggleType(type)}
+                                    disabled={!isLoaded || isPending}
+                                    className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                <div>
+                                    <p className="font-medium text-gray-900">{getNotificationTypeLabel(type)}</p>
+                                    <p className="text-gray-600 text-sm">{getNotificationTypeDescription(type)}</p>
+                                </div>
+                            </label>
+                        ))}
+                    </div>
+
+                    <div className="flex justify-end mt-6">
+                        <Button onClick={handleSave} disabled={!isLoaded || isPending}>
+                            Save Preferences
+                        </Button>
+                    </div>
+                </CardContent>
+            </Card>
+        </FormLoadingOverlay>
+    )
+}
@@ -0,0 +1,254 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Wand2, Check, X, Loader2 } from 'lucide-react'
+import { rewriteTalkPassage, acceptPassageRewrite } from '@/lib/actions/talks'
+import { GeneratedTalk, PassageRewriteProposal } from '@/lib/types/talks/generation'
+import { splitTalkParagraphs } from '@/lib/utils/talkParagraphs'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { BaseComponentProps } from '@/lib/types/components/common'
+
+interface PassageRewritePanelProps extends BaseComponentProps {
+    talk: GeneratedTalk
+}
+
+const SUGGESTED_INSTRUCTIONS = [
+    'Make this warmer',
+    'Add a scripture here',
+    'Simplify for Primary'
+]
+
+export default function PassageRewritePanel({ talk, className = '' }: PassageRewritePanelProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const [selection, setSelection] = useState<{ start: number; end: number } | null>(null)
+    const [instruction, setInstruction] = useState('')
+    const [proposal, setProposal] = useState<PassageRewriteProposal | null>(null)
+    const [isRewriting, setIsRewriting] = useState(false)
+    const [isAccepting, setIsAccepting] = useState(false)
+    const router = useRouter()
+
+    const paragraphs = splitTalkParagraphs(talk.content)
+
+    // Click selects a paragraph, shift-click extends the selection into a range
+    const handleParagraphClick = (index: number, extend: boolean) => {
+        if (proposal) return
+
+        if (extend && selection) {
+            setSelection({
+                start: Math.min(selection.start, index),
+                end: Math.max(selection.end, index)
+            })
+        } else {
+            setSelection({ start: index, end: index })
+        }
+    }
+
+    const handleRewrite = async () => {
+        if (!talk.id || !selection) return
+
+        setIsRewriting(true)
+        try {
+            const result = await rewriteTalkPassage(talk.id, {
+                startParagraph: selection.start,
+                endParagraph: selection.end,
+                instruction
+            })
+
+            if (result.success && result.data) {
+                setProposal(result.data)
+            } else {
+                toast.error('Failed to rewrite passage', {
+                    description: result.error
+                })
+            }
+        } catch {
+            toast.error('Failed to rewrite passage', {
+                description: 'An unexpected error occurred'
+            })
+        } finally {
+            setIsRewriting(false)
+        }
+    }
+
+    const handleAccept = async () => {
+        if (!proposal) return
+
+        setIsAccepting(true)
+        try {
+            const result = await acceptPassageRewrite(proposal)
+
+            if (result.success) {
+                toast.success('Rewrite saved', {
+                    description: 'The passage in your talk has been updated.'
+                })
+                setProposal(null)
+                setSelection(null)
+                setInstruction('')
+                router.refresh()
+            } else {
+                toast.error('Failed to save rewrite', {
+                    description: result.error
+                })
+            }
+        } catch {
+            toast.error('Failed to save rewrite', {
+                description: 'An unexpected error occurred'
+            })
+        } finally {
+            setIsAccepting(false)
+        }
+    }
+
+    const handleReject = () => {
+        setProposal(null)
+    }
+
+    if (!isOpen) {
+        return (
+            <div className={`max-w-4xl mx-auto ${className}`}>
+                <Button variant="outline" onClick={() => setIsOpen(true)}>
+                    <Wand2 className="mr-2 h-4 w-4" />
+                    Rewrite a passage
+                </Button>
+            </div>
+        )
+    }
+
+    return (
+        <div className={`max-w-4xl mx-auto bg-white rounded-2xl shadow-xl border border-gray-100 p-8 ${className}`}>
+            <div className="flex items-start justify-between mb-4">
+                <div>
+                    <h2 className="text-xl font-semibold text-gray-900">Rewrite a passage</h2>
+                    <p className="text-sm text-gray-600 mt-1">
+                        Click a paragraph to select it. Shift-click another paragraph to select a range.
+                    </p>
+                </div>
+                <button
+                    onClick={() => {
+                        setIsOpen(false)
+                        setProposal(null)
+                        setSelection(null)
+                    }}
+                    className="text-gray-400 hover:text-gray-600"
+                    aria-label="Close rewrite panel"
+                >
+                    <X className="h-5 w-5" />
+                </button>
+            </div>
+
+            {/* Paragraph selection */}
+            <div className="space-y-2 max-h-96 overflow-y-auto mb-6">
+                {paragraphs.map((paragraph, index) => {
+                    const isSelected = !!selection && index >= selection.start && index <= selection.end
+
+                    return (
+                        <button
+                            key={index}
+                            type="button"
+                            onClick={(e) => handleParagraphClick(index, e.shiftKey)}
+                            disabled={!!proposal}
+                            className={`w-full text-left text-sm leading-relaxed rounded-lg border px-4 py-3 transition-colors ${isSelected
+                                ? 'border-blue-400 bg-blue-50 text-gray-900'
+                                : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                                } disabled:cursor-default`}
+                        >
+                            {paragraph}
+                        </button>
+                    )
+                })}
+            </div>
+
+            {/* Instruction */}
+            {!proposal && (
+                <div className="space-y-3">
+                    <Label htmlFor="rewrite-instruction">What should change?</Label>
+                    <div className="flex flex-wrap gap-2">
+                        {SUGGESTED_INSTRUCTIONS.map(suggestion => (
+                            <button
+                                key={suggestion}
+                                type="button"
+                                onClick={() => setInstruction(suggestion)}
+                                className="px-3 py-1 text-xs font-medium rounded-full border border-gray-300 text-gray-700 hover:bg-gray-50"
+                            >
+                                {suggestion}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex gap-3">
+                        <Input
+                            id="rewrite-instruction"
+                            value={instruction}
+                            onChange={(e) => setInstruction(e.target.value)}
+                            placeholder="e.g. Make this warmer"
+                            maxLength={300}
+                        />
+                        <Button
+                            onClick={handleRewrite}
+                            disabled={!selection || instruction.trim().length < 3 || isRewriting}
+                        >
+                            {isRewriting ? (
+                                <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    Rewriting...
+                                </>
+                            ) : (
+                                'Propose rewrite'
+                            )}
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {/* Proposal */}
+            {proposal && (
+                <div className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <h3 className="text-sm font-medium text-gray-500 mb-2">Current</h3>
+                            <div className="space-y-3 rounded-lg bg-gray-50 border border-gray-200 p-4 text-sm text-gray-600 leading-relaxed">
+                                {proposal.original.map((paragraph, index) => (
+                                    <p key={index}>{paragraph}</p>
+                                ))}
+                            </div>
+                        </div>
+                        <div>
+                            <h3 className="text-sm font-medium text-green-700 mb-2">Proposed</h3>
+                            <div className="space-y-3 rounded-lg bg-green-50 border border-green-200 p-4 text-sm text-gray-900 leading-relaxed">
+                                {proposal.replacement.map((paragraph, index) => (
+                                    <p key={index}>{paragraph}</p>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+
+                    {proposal.warnings.length > 0 && (
+                        <ul className="text-xs text-amber-700 list-disc list-inside">
+                            {proposal.warnings.map((warning, index) => (
+                                <li key={index}>{warning}</li>
+                            ))}
+                        </ul>
+                    )}
+
+                    <div className="flex justify-end gap-3">
+                        <Button variant="outline" onClick={handleReject} disabled={isAccepting}>
+                            <X className="mr-2 h-4 w-4" />
+                            Reject
+                        </Button>
+                        <Button onClick={handleAccept} disabled={isAccepting}>
+                            {isAccepting ? (
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                                <Check className="mr-2 h-4 w-4" />
+                            )}
+                            Accept
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
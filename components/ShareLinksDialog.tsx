@@ -0,0 +1,227 @@
+"use client"
+
+import * as React from "react"
+import { Link2, Copy, Loader2, Lock } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "sonner"
+import { createShareLink, getShareLinks, revokeShareLink } from "@/lib/actions/shareLinks"
+import { ShareLink } from "@/lib/types/talks/sharing"
+import { BasicTalk } from "@/lib/types/talks/display"
+
+interface ShareLinksDialogProps {
+    talk: BasicTalk
+}
+
+const EXPIRY_OPTIONS = [
+    { days: 1, label: '1 day' },
+    { days: 7, label: '7 days' },
+    { days: 30, label: '30 days' },
+    { days: 90, label: '90 days' }
+]
+
+const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric'
+    })
+}
+
+const getLinkState = (link: ShareLink): 'active' | 'expired' | 'revoked' => {
+    if (link.revokedAt) return 'revoked'
+    return new Date(link.expiresAt).getTime() <= Date.now() ? 'expired' : 'active'
+}
+
+export function ShareLinksDialog({ talk }: ShareLinksDialogProps) {
+    const [open, setOpen] = React.useState(false)
+    const [links, setLinks] = React.useState<ShareLink[]>([])
+    const [isLoading, setIsLoading] = React.useState(false)
+    const [expiresInDays, setExpiresInDays] = React.useState(7)
+    const [password, setPassword] = React.useState("")
+    const [isCreating, setIsCreating] = React.useState(false)
+    const [revoking, setRevoking] = React.useState<string | null>(null)
+
+    const loadLinks = React.useCallback(async () => {
+        setIsLoading(true)
+        try {
+            const result = await getShareLinks(talk.id)
+            if (result.success && result.data) {
+                setLinks(result.data)
+            } else {
+                toast.error(result.error || 'Failed to load links')
+            }
+        } catch (error) {
+            console.error('Failed to load share links:', error)
+            toast.error('Failed to load links')
+        } finally {
+            setIsLoading(false)
+        }
+    }, [talk.id])
+
+    React.useEffect(() => {
+        if (open) {
+            loadLinks()
+        }
+    }, [open, loadLinks])
+
+    const copyLink = async (link: ShareLink) => {
+        try {
+            await navigator.clipboard.writeText(`${window.location.origin}${link.path}`)
+            toast.success('Link copied')
+        } catch {
+            toast.error('Could not copy the link')
+        }
+    }
+
+    const handleCreate = async () => {
+        setIsCreating(true)
+        try {
+            const result = await createShareLink(talk.id, {
+                expiresInDays,
+                password: password || undefined
+            })
+
+            if (result.success && result.data) {
+                setPassword("")
+                setLinks(prev => [result.data!, ...prev])
+                await copyLink(result.data)
+            } else {
+                toast.error(result.error || 'Failed to create link')
+            }
+        } catch (error) {
+            console.error('Failed to create share link:', error)
+            toast.error('Failed to create link')
+        } finally {
+            setIsCreating(false)
+        }
+    }
+
+    const handleRevoke = async (linkId: string) => {
+        setRevoking(linkId)
+        try {
+            const result = await revokeShareLink(linkId)
+            if (result.success) {
+                toast.success('Link turned off')
+                await loadLinks()
+            } else {
+                toast.error(result.error || 'Failed to revoke link')
+            }
+        } catch (error) {
+            console.error('Failed to revoke share link:', error)
+            toast.error('Failed to revoke link')
+        } finally {
+            setRevoking(null)
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <button className="w-full flex items-center px-4 py-3 text-left text-gray-700 hover:bg-gray-50 rounded-lg transition-colors">
+                    <Link2 className="w-5 h-5 text-gray-400 mr-3" />
+                    <div>
+                        <p className="font-medium">Public Link</p>
+                        <p className="text-sm text-gray-500">Read-only link for people without an account</p>
+                    </div>
+                </button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[560px]">
+                <DialogHeader>
+                    <DialogTitle>Public Links</DialogTitle>
+                    <DialogDescription>
+                        Anyone with a link can read &quot;{talk.title}&quot; until it expires or you turn it off.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {/* New link */}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 py-2">
+                    <div className="space-y-2">
+                        <Label htmlFor="link-expiry">Expires after</Label>
+                        <Select value={String(expiresInDays)} onValueChange={(value) => setExpiresInDays(Number(value))}>
+                            <SelectTrigger id="link-expiry">
+                                <SelectValue placeholder="Select expiry" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {EXPIRY_OPTIONS.map(option => (
+                                    <SelectItem key={option.days} value={String(option.days)}>
+                                        {option.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="link-password">Password (optional)</Label>
+                        <Input
+                            id="link-password"
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            placeholder="At least 6 characters"
+                            maxLength={128}
+                        />
+                    </div>
+                </div>
+                <div className="flex justify-end">
+                    <Button onClick={handleCreate} disabled={isCreating}>
+                        {isCreating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Create and copy link
+                    </Button>
+                </div>
+
+                {/* Existing links */}
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                    {isLoading && links.length === 0 ? (
+                        <div className="flex items-center text-sm text-muted-foreground">
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            Loading links...
+                        </div>
+                    ) : links.map(link => {
+                        const state = getLinkState(link)
+
+                        return (
+                            <div key={link.id} className="flex items-center justify-between p-3 bg-muted rounded-md">
+                                <div className="space-y-1">
+                                    <div className="flex items-center gap-2">
+                                        <Badge variant={state === 'active' ? 'default' : 'secondary'}>
+                                            {state.charAt(0).toUpperCase() + state.slice(1)}
+                                        </Badge>
+                                        {link.hasPassword && <Lock className="h-3 w-3 text-muted-foreground" />}
+                                    </div>
+                                    <p className="text-xs text-muted-foreground">
+                                        {link.viewCount} view{link.viewCount === 1 ? '' : 's'}
+                                        {' · '}
+                                        {state === 'revoked' && link.revokedAt
+                                            ? `Turned off ${formatDate(link.revokedAt)}`
+                                            : `${state === 'expired' ? 'Expired' : 'Expires'} ${formatDate(link.expiresAt)}`}
+                                    </p>
+                                </div>
+                                {state === 'active' && (
+                                    <div className="flex items-center gap-2">
+                                        <Button variant="outline" size="sm" onClick={() => copyLink(link)}>
+                                            <Copy className="h-4 w-4" />
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => handleRevoke(link.id)}
+                                            disabled={revoking === link.id}
+                                            className="text-red-600 hover:text-red-700"
+                                        >
+                                            Turn off
+                                        </Button>
+                                    </div>
+                                )}
+                            </div>
+                        )
+                    })}
+                </div>
+            </DialogContent>
+        </Dialog>
+    )
+}
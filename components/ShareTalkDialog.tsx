@@ -13,11 +13,15 @@ import {
  DialogTrigger,
 } from"@/components/ui/dialog"
 import { Textarea } from"@/components/ui/textarea"
+import { Input } from"@/components/ui/input"
 import { Label } from"@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from"@/components/ui/select"
 import { UserSearchCombobox } from"./UserSearchCombobox"
 import { toast } from"sonner"
 import { BaseUser } from"@/lib/types/auth/user"
 import { BasicTalk } from"@/lib/types/talks/display"
+import { SharePermission } from"@/lib/types/talks/sharing"
+import { SHARE_PERMISSIONS, getSharePermissionLabel } from"@/lib/utils/talkAccess"
 
 
 interface ShareTalkDialogProps {
@@ -30,6 +34,8 @@ export function ShareTalkDialog({ talk, onShareComplete, variant = 'button' }: S
  const [open, setOpen] = React.useState(false)
  const [selectedUsers, setSelectedUsers] = React.useState<BaseUser[]>([])
  const [message, setMessage] = React.useState("")
+ const [permission, setPermission] = React.useState<SharePermission>('view')
+ const [speakingDate, setSpeakingDate] = React.useState("")
  const [isSharing, setIsSharing] = React.useState(false)
 
  const handleUserSelect = (user: BaseUser) => {
@@ -56,7 +62,9 @@ export function ShareTalkDialog({ talk, onShareComplete, variant = 'button' }: S
  body: JSON.stringify({
  talkId: talk.id,
  recipientIds: selectedUsers.map(user => user.id),
- message: message.trim() || undefined
+ message: message.trim() || undefined,
+ permission,
+ speakingDate: speakingDate || undefined
  })
  })
 
@@ -72,6 +80,8 @@ export function ShareTalkDialog({ talk, onShareComplete, variant = 'button' }: S
  // Reset form
  setSelectedUsers([])
  setMessage("")
+ setPermission('view')
+ setSpeakingDate("")
  setOpen(false)
 
  // Call completion callback
@@ -91,6 +101,8 @@ export function ShareTalkDialog({ talk, onShareComplete, variant = 'button' }: S
  // Reset form when closing
  setSelectedUsers([])
  setMessage("")
+ setPermission('view')
+ setSpeakingDate("")
  }
  }
 
@@ -133,6 +145,38 @@ export function ShareTalkDialog({ talk, onShareComplete, variant = 'button' }: S
  />
  </div>
 
+ <div className="space-y-2">
+ <Label htmlFor="permission">Access</Label>
+ <Select value={permission} onValueChange={(value) => setPermission(value as SharePermission)}>
+ <SelectTrigger id="permission">
+ <SelectValue placeholder="Select access" />
+ </SelectTrigger>
+ <SelectContent>
+ {SHARE_PERMISSIONS.map(option => (
+ <SelectItem key={option} value={option}>
+ {getSharePermissionLabel(option)}
+ </SelectItem>
+ ))}
+ </SelectContent>
+ </Select>
+ <p className="text-xs text-muted-foreground">
+ Recipients work on this talk, not a copy. Anyone who can edit can change it for everyone.
+ </p>
+ </div>
+
+ <div className="space-y-2">
+ <Label htmlFor="speakingDate">Speaking date (optional)</Label>
+ <Input
+ id="speakingDate"
+ type="date"
+ value={speakingDate}
+ onChange={(e) => setSpeakingDate(e.target.value)}
+ />
+ <p className="text-xs text-muted-foreground">
+ Set a date to ask recipients to give this talk. They&apos;re notified of the speaking assignment.
+ </p>
+ </div>
+
  <div className="space-y-2">
  <Label htmlFor="message">Optional message</Label>
  <Textarea
@@ -1,21 +1,26 @@
 "use client"
 
 import * as React from "react"
-import { Check, X, Eye, User, Calendar, MessageSquare } from "lucide-react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Check, X, Eye, User, Calendar, CalendarDays, MessageSquare, Copy, ExternalLink } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { toast } from "sonner"
-import { getReceivedSharedTalks, respondToSharedTalk } from "@/lib/actions/talks"
+import { getReceivedSharedTalks, respondToSharedTalk, copySharedTalk, markSharedTalkViewed } from "@/lib/actions/talks"
 import { ReceivedTalkDetails } from "@/lib/types/talks/sharing"
 import { getMeetingTypeLabel } from "@/lib/utils/meetingTypes"
+import { formatSpeakingDate, getSharePermissionLabel } from "@/lib/utils/talkAccess"
 
 
 function SharedTalksManager() {
     const [sharedTalks, setSharedTalks] = React.useState<ReceivedTalkDetails[]>([])
     const [isLoading, setIsLoading] = React.useState(true)
     const [respondingTo, setRespondingTo] = React.useState<string | null>(null)
+    const [copying, setCopying] = React.useState<string | null>(null)
+    const router = useRouter()
 
     // Load shared talks on component mount
     React.useEffect(() => {
@@ -61,6 +66,28 @@ function SharedTalksManager() {
         }
     }
 
+    const handleCopy = async (share: ReceivedTalkDetails) => {
+        if (!share.talk.id) return
+
+        try {
+            setCopying(share.id)
+
+            const result = await copySharedTalk(share.talk.id)
+
+            if (result.success && result.data) {
+                toast.success('A copy has been added to your talks')
+                router.push(`/talk/${result.data.talkId}`)
+            } else {
+                toast.error(result.error || 'Failed to copy talk')
+            }
+        } catch (error) {
+            console.error('Failed to copy talk:', error)
+            toast.error('Failed to copy talk')
+        } finally {
+            setCopying(null)
+        }
+    }
+
     const formatDate = (date: Date) => {
         return new Date(date).toLocaleDateString('en-US', {
             year: 'numeric',
@@ -152,9 +179,12 @@ function SharedTalksManager() {
                                         </div>
                                     </CardDescription>
                                 </div>
-                                <Badge variant={getStatusBadgeVariant(share.status)}>
-                                    {share.status.charAt(0).toUpperCase() + share.status.slice(1)}
-                                </Badge>
+                                <div className="flex items-center space-x-2">
+                                    <Badge variant="outline">{getSharePermissionLabel(share.permission)}</Badge>
+                                    <Badge variant={getStatusBadgeVariant(share.status)}>
+                                        {share.status.charAt(0).toUpperCase() + share.status.slice(1)}
+                                    </Badge>
+                                </div>
                             </div>
                         </CardHeader>
 
@@ -167,6 +197,15 @@ function SharedTalksManager() {
                                 </div>
 
                                 {/* Message from sharer */}
+                                {share.speakingDate && (
+                                    <div className="flex items-center space-x-2 text-sm font-medium">
+                                        <CalendarDays className="h-4 w-4 text-muted-foreground" />
+                                        <span>
+                                            {share.sharedBy.firstName} asked you to give this talk on {formatSpeakingDate(share.speakingDate)}
+                                        </span>
+                                    </div>
+                                )}
+
                                 {share.message && (
                                     <div className="bg-muted p-3 rounded-md">
                                         <div className="flex items-start space-x-2">
@@ -182,8 +221,8 @@ function SharedTalksManager() {
                                 {/* Action buttons */}
                                 <div className="flex items-center justify-between">
                                     <div className="flex items-center space-x-2">
-                                        {/* Preview talk button */}
-                                        <Dialog>
+                                        {/* Preview talk button - opening it tells the sharer the talk was seen */}
+                                        <Dialog onOpenChange={(open) => open && markSharedTalkViewed(share.id)}>
                                             <DialogTrigger asChild>
                                                 <Button variant="outline" size="sm">
                                                     <Eye className="h-4 w-4 mr-2" />
@@ -208,6 +247,28 @@ function SharedTalksManager() {
                                                 </div>
                                             </DialogContent>
                                         </Dialog>
+
+                                        {/* Accepted shares open the original talk */}
+                                        {share.status === 'accepted' && share.talk.id && (
+                                            <Button variant="outline" size="sm" asChild>
+                                                <Link href={`/talk/${share.talk.id}`}>
+                                                    <ExternalLink className="h-4 w-4 mr-2" />
+                                                    Open
+                                                </Link>
+                                            </Button>
+                                        )}
+
+                                        {share.status !== 'declined' && (
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => handleCopy(share)}
+                                                disabled={copying === share.id}
+                                            >
+                                                <Copy className="h-4 w-4 mr-2" />
+                                                {copying === share.id ? 'Copying...' : 'Make my own copy'}
+                                            </Button>
+                                        )}
                                     </div>
 
                                     {/* Response buttons for pending shares */}
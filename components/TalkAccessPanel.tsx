@@ -0,0 +1,249 @@
+"use client"
+
+import * as React from "react"
+import { Users, User, Loader2, Send, Ban, History } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { toast } from "sonner"
+import { getSharedTalksByUser, getTalkShareEvents, resendTalkShare, revokeTalkShare } from "@/lib/actions/talks"
+import { BaseUser } from "@/lib/types/auth/user"
+import { ShareEvent, SharedTalkDetails } from "@/lib/types/talks/sharing"
+import { BasicTalk } from "@/lib/types/talks/display"
+import { getSharePermissionLabel } from "@/lib/utils/talkAccess"
+
+interface TalkAccessPanelProps {
+    talkId: string
+    onChange?: () => void
+}
+
+const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    })
+}
+
+const getUserName = (user?: BaseUser) => user ? `${user.firstName} ${user.lastName}` : 'A deleted user'
+
+const describeShareEvent = (event: ShareEvent): string => {
+    const recipient = getUserName(event.recipient)
+    const permission = event.permission ? ` (${getSharePermissionLabel(event.permission).toLowerCase()})` : ''
+
+    switch (event.type) {
+        case 'sent':
+            return `Shared with ${recipient}${permission}`
+        case 'resent':
+            return `Sent to ${recipient} again${permission}`
+        case 'permission_changed':
+            return `Changed ${recipient}'s access${permission}`
+        case 'viewed':
+            return `${recipient} viewed the talk`
+        case 'accepted':
+            return `${recipient} accepted`
+        case 'declined':
+            return `${recipient} declined`
+        case 'revoked':
+            return `Revoked ${recipient}'s access`
+        default:
+            return event.type
+    }
+}
+
+// Shares that currently reach the talk first, then invitations, then ended shares
+const SHARE_STATUS_ORDER = ['accepted', 'pending', 'declined', 'revoked']
+
+export function TalkAccessPanel({ talkId, onChange }: TalkAccessPanelProps) {
+    const [shares, setShares] = React.useState<SharedTalkDetails[]>([])
+    const [events, setEvents] = React.useState<ShareEvent[]>([])
+    const [isLoading, setIsLoading] = React.useState(true)
+    const [updating, setUpdating] = React.useState<string | null>(null)
+
+    const loadAccess = React.useCallback(async () => {
+        try {
+            const [sharesResult, eventsResult] = await Promise.all([
+                getSharedTalksByUser(talkId),
+                getTalkShareEvents(talkId)
+            ])
+
+            if (sharesResult.success && sharesResult.shares) {
+                setShares(sharesResult.shares)
+            } else {
+                toast.error(sharesResult.error || 'Failed to load who has access')
+            }
+
+            if (eventsResult.success && eventsResult.data) {
+                setEvents(eventsResult.data)
+            } else {
+                toast.error(eventsResult.error || 'Failed to load sharing history')
+            }
+        } catch (error) {
+            console.error('Failed to load talk access:', error)
+            toast.error('Failed to load who has access')
+        } finally {
+            setIsLoading(false)
+        }
+    }, [talkId])
+
+    React.useEffect(() => {
+        loadAccess()
+    }, [loadAccess])
+
+    const handleUpdate = async (share: SharedTalkDetails, action: 'resend' | 'revoke') => {
+        setUpdating(share.id)
+        try {
+            const result = action === 'resend'
+                ? await resendTalkShare(share.id)
+                : await revokeTalkShare(share.id)
+
+            if (result.success) {
+                toast.success(action === 'resend'
+                    ? `Sent to ${share.sharedWith.firstName} again`
+                    : `${share.sharedWith.firstName} no longer has access`)
+                await loadAccess()
+                onChange?.()
+            } else {
+                toast.error(result.error || `Failed to ${action} share`)
+            }
+        } catch (error) {
+            console.error(`Failed to ${action} share:`, error)
+            toast.error(`Failed to ${action} share`)
+        } finally {
+            setUpdating(null)
+        }
+    }
+
+    const sortedShares = React.useMemo(() => {
+        return [...shares].sort((a, b) => SHARE_STATUS_ORDER.indexOf(a.status) - SHARE_STATUS_ORDER.indexOf(b.status))
+    }, [shares])
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Loading who has access...
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Who has access */}
+            <div className="space-y-2">
+                <h4 className="text-sm font-medium">Who has access</h4>
+                <div className="flex items-center justify-between p-3 bg-muted rounded-md">
+                    <div className="flex items-center space-x-3">
+                        <User className="h-4 w-4 text-muted-foreground" />
+                        <p className="text-sm font-medium">You</p>
+                    </div>
+                    <Badge variant="outline">Owner</Badge>
+                </div>
+
+                {sortedShares.length === 0 && (
+                    <p className="text-sm text-muted-foreground">You haven&apos;t shared this talk with anyone yet.</p>
+                )}
+
+                {sortedShares.map(share => {
+                    const isEnded = share.status === 'declined' || share.status === 'revoked'
+
+                    return (
+                        <div
+                            key={share.id}
+                            className={`flex items-center justify-between p-3 bg-muted rounded-md ${isEnded ? 'opacity-70' : ''}`}
+                        >
+                            <div className="flex items-center space-x-3 min-w-0">
+                                <User className="h-4 w-4 text-muted-foreground shrink-0" />
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium truncate">
+                                        {share.sharedWith.firstName} {share.sharedWith.lastName}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                        {share.status === 'accepted' && `${getSharePermissionLabel(share.permission)} since ${formatDate(share.respondedAt || share.sentAt)}`}
+                                        {share.status === 'pending' && `Invited ${formatDate(share.sentAt)}${share.viewedAt ? ` · Seen ${formatDate(share.viewedAt)}` : ''}`}
+                                        {share.status === 'declined' && `Declined ${formatDate(share.respondedAt || share.sentAt)}`}
+                                        {share.status === 'revoked' && `Revoked ${formatDate(share.revokedAt || share.sentAt)}`}
+                                    </p>
+                                </div>
+                            </div>
+
+                            <div className="flex items-center gap-2 shrink-0">
+                                {share.status !== 'accepted' && (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => handleUpdate(share, 'resend')}
+                                        disabled={updating === share.id}
+                                    >
+                                        <Send className="h-4 w-4 mr-1" />
+                                        Resend
+                                    </Button>
+                                )}
+                                {!isEnded && (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => handleUpdate(share, 'revoke')}
+                                        disabled={updating === share.id}
+                                        className="text-red-600 hover:text-red-700"
+                                    >
+                                        <Ban className="h-4 w-4 mr-1" />
+                                        Revoke
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                    )
+                })}
+            </div>
+
+            {/* Sharing history */}
+            {events.length > 0 && (
+                <div className="space-y-2">
+                    <h4 className="text-sm font-medium flex items-center">
+                        <History className="h-4 w-4 mr-2 text-muted-foreground" />
+                        History
+                    </h4>
+                    <ol className="space-y-1 max-h-48 overflow-y-auto">
+                        {events.map(event => (
+                            <li key={event.id} className="flex items-start justify-between gap-4 text-sm">
+                                <span>{describeShareEvent(event)}</span>
+                                <span className="text-xs text-muted-foreground whitespace-nowrap">{formatDate(event.createdAt)}</span>
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            )}
+        </div>
+    )
+}
+
+interface TalkAccessDialogProps {
+    talk: BasicTalk
+}
+
+export function TalkAccessDialog({ talk }: TalkAccessDialogProps) {
+    return (
+        <Dialog>
+            <DialogTrigger asChild>
+                <button className="w-full flex items-center px-4 py-3 text-left text-gray-700 hover:bg-gray-50 rounded-lg transition-colors">
+                    <Users className="w-5 h-5 text-gray-400 mr-3" />
+                    <div>
+                        <p className="font-medium">Who Has Access</p>
+                        <p className="text-sm text-gray-500">Resend or revoke shares and see their history</p>
+                    </div>
+                </button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[560px] max-h-[80vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Who Has Access</DialogTitle>
+                    <DialogDescription>
+                        People you&apos;ve shared &quot;{talk.title}&quot; with
+                    </DialogDescription>
+                </DialogHeader>
+                <TalkAccessPanel talkId={talk.id} />
+            </DialogContent>
+        </Dialog>
+    )
+}
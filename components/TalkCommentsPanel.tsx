@@ -0,0 +1,421 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { MessageSquare, Check, X, RotateCcw, Loader2, Pencil } from 'lucide-react'
+import {
+    getTalkComments,
+    startTalkCommentThread,
+    replyToTalkComment,
+    setTalkCommentResolved,
+    respondToTalkSuggestion
+} from '@/lib/actions/comments'
+import { GeneratedTalk } from '@/lib/types/talks/generation'
+import { TalkCommentThread } from '@/lib/types/talks/comments'
+import { splitTalkParagraphs } from '@/lib/utils/talkParagraphs'
+import { canCommentOnTalk, canEditTalk } from '@/lib/utils/talkAccess'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { BaseComponentProps } from '@/lib/types/components/common'
+
+interface TalkCommentsPanelProps extends BaseComponentProps {
+    talk: GeneratedTalk
+}
+
+const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    })
+}
+
+const formatParagraphRange = (thread: TalkCommentThread) => {
+    return thread.startParagraph === thread.endParagraph
+        ? `Paragraph ${thread.startParagraph + 1}`
+        : `Paragraphs ${thread.startParagraph + 1}–${thread.endParagraph + 1}`
+}
+
+export default function TalkCommentsPanel({ talk, className = '' }: TalkCommentsPanelProps) {
+    const [threads, setThreads] = useState<TalkCommentThread[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [showResolved, setShowResolved] = useState(false)
+    const [selection, setSelection] = useState<{ start: number; end: number } | null>(null)
+    const [body, setBody] = useState('')
+    const [suggestion, setSuggestion] = useState<string | null>(null)
+    const [isSubmitting, setIsSubmitting] = useState(false)
+    const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({})
+    const [busyThread, setBusyThread] = useState<string | null>(null)
+    const router = useRouter()
+
+    const paragraphs = splitTalkParagraphs(talk.content)
+    const canComment = canCommentOnTalk(talk.access)
+    const canEdit = canEditTalk(talk.access)
+
+    const loadThreads = useCallback(async () => {
+        if (!talk.id) return
+
+        try {
+            const result = await getTalkComments(talk.id)
+            if (result.success && result.data) {
+                setThreads(result.data)
+            } else {
+                toast.error('Failed to load comments', { description: result.error })
+            }
+        } catch {
+            toast.error('Failed to load comments')
+        } finally {
+            setIsLoading(false)
+        }
+    }, [talk.id])
+
+    // Reload when the talk changes, since threads follow their paragraphs through edits
+    useEffect(() => {
+        loadThreads()
+    }, [loadThreads, talk.content])
+
+    // Click selects a paragraph, shift-click extends the selection into a range
+    const handleParagraphClick = (index: number, extend: boolean) => {
+        if (!canComment) return
+
+        if (extend && selection) {
+            setSelection({
+                start: Math.min(selection.start, index),
+                end: Math.max(selection.end, index)
+            })
+        } else {
+            setSelection({ start: index, end: index })
+        }
+        setSuggestion(null)
+    }
+
+    const resetForm = () => {
+        setSelection(null)
+        setBody('')
+        setSuggestion(null)
+    }
+
+    const handleStartThread = async () => {
+        if (!talk.id || !selection) return
+
+        setIsSubmitting(true)
+        try {
+            const result = await startTalkCommentThread(talk.id, {
+                startParagraph: selection.start,
+                endParagraph: selection.end,
+                body,
+                suggestion: suggestion ?? undefined
+            })
+
+            if (result.success) {
+                resetForm()
+                await loadThreads()
+            } else {
+                toast.error('Failed to add comment', { description: result.error })
+            }
+        } catch {
+            toast.error('Failed to add comment', { description: 'An unexpected error occurred' })
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    const handleReply = async (threadId: string) => {
+        setBusyThread(threadId)
+        try {
+            const result = await replyToTalkComment(threadId, replyDrafts[threadId] || '')
+
+            if (result.success) {
+                setReplyDrafts(prev => ({ ...prev, [threadId]: '' }))
+                await loadThreads()
+            } else {
+                toast.error('Failed to add reply', { description: result.error })
+            }
+        } catch {
+            toast.error('Failed to add reply', { description: 'An unexpected error occurred' })
+        } finally {
+            setBusyThread(null)
+        }
+    }
+
+    const handleResolve = async (threadId: string, resolved: boolean) => {
+        setBusyThread(threadId)
+        try {
+            const result = await setTalkCommentResolved(threadId, resolved)
+
+            if (result.success) {
+                await loadThreads()
+            } else {
+                toast.error('Failed to update comment', { description: result.error })
+            }
+        } catch {
+            toast.error('Failed to update comment', { description: 'An unexpected error occurred' })
+        } finally {
+            setBusyThread(null)
+        }
+    }
+
+    const handleSuggestion = async (threadId: string, response: 'accepted' | 'rejected') => {
+        setBusyThread(threadId)
+        try {
+            const result = await respondToTalkSuggestion(threadId, response)
+
+            if (result.success) {
+                if (response === 'accepted') {
+                    toast.success('Suggestion accepted', {
+                        description: 'The talk has been updated.'
+                    })
+                    router.refresh()
+                }
+                await loadThreads()
+            } else {
+                toast.error('Failed to update suggestion', { description: result.error })
+            }
+        } catch {
+            toast.error('Failed to update suggestion', { description: 'An unexpected error occurred' })
+        } finally {
+            setBusyThread(null)
+        }
+    }
+
+    const visibleThreads = threads.filter(thread => showResolved || !thread.resolved)
+    const resolvedCount = threads.filter(thread => thread.resolved).length
+    const openCountByParagraph = (index: number) => threads.filter(thread =>
+        !thread.resolved && !thread.isOutdated && index >= thread.startParagraph && index <= thread.endParagraph
+    ).length
+
+    return (
+        <div className={`max-w-4xl mx-auto bg-white rounded-2xl shadow-xl border border-gray-100 p-8 ${className}`}>
+            <div className="flex items-start justify-between mb-4">
+                <div>
+                    <h2 className="text-xl font-semibold text-gray-900">Comments</h2>
+                    <p className="text-sm text-gray-600 mt-1">
+                        {canComment
+                            ? 'Click a paragraph to comment on it. Shift-click another paragraph to select a range.'
+                            : 'Comments from everyone this talk is shared with.'}
+                    </p>
+                </div>
+                {resolvedCount > 0 && (
+                    <button
+                        onClick={() => setShowResolved(!showResolved)}
+                        className="text-sm text-gray-500 hover:text-gray-700"
+                    >
+                        {showResolved ? 'Hide resolved' : `Show resolved (${resolvedCount})`}
+                    </button>
+                )}
+            </div>
+
+            {/* Paragraph selection */}
+            <div className="space-y-2 max-h-96 overflow-y-auto mb-6">
+                {paragraphs.map((paragraph, index) => {
+                    const isSelected = !!selection && index >= selection.start && index <= selection.end
+                    const openCount = openCountByParagraph(index)
+
+                    return (
+                        <button
+                            key={index}
+                            type="button"
+                            onClick={(e) => handleParagraphClick(index, e.shiftKey)}
+                            disabled={!canComment}
+                            className={`w-full text-left text-sm leading-relaxed rounded-lg border px-4 py-3 transition-colors ${isSelected
+                                ? 'border-blue-400 bg-blue-50 text-gray-900'
+                                : openCount > 0
+                                    ? 'border-amber-200 bg-amber-50 text-gray-700 hover:bg-amber-100'
+                                    : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                                } disabled:cursor-default`}
+                        >
+                            {paragraph}
+                            {openCount > 0 && (
+                                <span className="ml-2 inline-flex items-center text-xs text-amber-700">
+                                    <MessageSquare className="h-3 w-3 mr-1" />
+                                    {openCount}
+                                </span>
+                            )}
+                        </button>
+                    )
+                })}
+            </div>
+
+            {/* New thread */}
+            {canComment && selection && (
+                <div className="space-y-3 mb-6 rounded-lg border border-gray-200 p-4">
+                    <Label htmlFor="comment-body">
+                        Comment on {selection.start === selection.end
+                            ? `paragraph ${selection.start + 1}`
+                            : `paragraphs ${selection.start + 1}–${selection.end + 1}`}
+                    </Label>
+                    <Textarea
+                        id="comment-body"
+                        value={body}
+                        onChange={(e) => setBody(e.target.value)}
+                        placeholder="What do you think?"
+                        rows={3}
+                        maxLength={2000}
+                    />
+
+                    {suggestion === null ? (
+                        <button
+                            type="button"
+                            onClick={() => setSuggestion(paragraphs.slice(selection.start, selection.end + 1).join('\n\n'))}
+                            className="flex items-center text-sm text-blue-700 hover:text-blue-900"
+                        >
+                            <Pencil className="h-4 w-4 mr-1" />
+                            Suggest an edit
+                        </button>
+                    ) : (
+                        <div className="space-y-2">
+                            <Label htmlFor="comment-suggestion">Suggested text</Label>
+                            <Textarea
+                                id="comment-suggestion"
+                                value={suggestion}
+                                onChange={(e) => setSuggestion(e.target.value)}
+                                rows={6}
+                                maxLength={5000}
+                            />
+                            <button
+                                type="button"
+                                onClick={() => setSuggestion(null)}
+                                className="text-xs text-gray-500 hover:text-gray-700"
+                            >
+                                Remove suggested edit
+                            </button>
+                        </div>
+                    )}
+
+                    <div className="flex justify-end gap-3">
+                        <Button variant="outline" onClick={resetForm} disabled={isSubmitting}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleStartThread} disabled={body.trim().length === 0 || isSubmitting}>
+                            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            {suggestion !== null ? 'Suggest edit' : 'Comment'}
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {/* Threads */}
+            {isLoading ? (
+                <div className="flex items-center text-sm text-gray-500">
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Loading comments...
+                </div>
+            ) : visibleThreads.length === 0 ? (
+                <p className="text-sm text-gray-500">No open comments.</p>
+            ) : (
+                <div className="space-y-4">
+                    {visibleThreads.map(thread => (
+                        <div
+                            key={thread.id}
+                            className={`rounded-lg border p-4 ${thread.resolved ? 'border-gray-100 bg-gray-50 opacity-75' : 'border-gray-200'}`}
+                        >
+                            <div className="flex items-center justify-between mb-2">
+                                <div className="flex items-center gap-2 text-xs text-gray-500">
+                                    <span>{formatParagraphRange(thread)}</span>
+                                    {thread.isOutdated && <Badge variant="outline">Text changed</Badge>}
+                                    {thread.suggestionStatus && (
+                                        <Badge variant={thread.suggestionStatus === 'rejected' ? 'destructive' : thread.suggestionStatus === 'accepted' ? 'default' : 'secondary'}>
+                                            {thread.suggestionStatus === 'pending' ? 'Suggested edit' : `Suggestion ${thread.suggestionStatus}`}
+                                        </Badge>
+                                    )}
+                                    {thread.resolved && thread.resolvedBy && (
+                                        <span>Resolved by {thread.resolvedBy.firstName}</span>
+                                    )}
+                                </div>
+                                {canComment && (
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => handleResolve(thread.id, !thread.resolved)}
+                                        disabled={busyThread === thread.id}
+                                    >
+                                        {thread.resolved ? (
+                                            <>
+                                                <RotateCcw className="mr-1 h-4 w-4" />
+                                                Reopen
+                                            </>
+                                        ) : (
+                                            <>
+                                                <Check className="mr-1 h-4 w-4" />
+                                                Resolve
+                                            </>
+                                        )}
+                                    </Button>
+                                )}
+                            </div>
+
+                            <blockquote className="border-l-2 border-gray-300 pl-3 text-xs text-gray-500 italic line-clamp-2 mb-3">
+                                {thread.quotedText}
+                            </blockquote>
+
+                            {[thread, ...thread.replies].map(comment => (
+                                <div key={comment.id} className="mb-3">
+                                    <p className="text-sm">
+                                        <span className="font-medium text-gray-900">
+                                            {comment.author.firstName} {comment.author.lastName}
+                                        </span>
+                                        <span className="ml-2 text-xs text-gray-500">{formatDate(comment.createdAt)}</span>
+                                    </p>
+                                    <p className="text-sm text-gray-700 whitespace-pre-line">{comment.body}</p>
+                                </div>
+                            ))}
+
+                            {/* Suggested edit */}
+                            {thread.suggestion && (
+                                <div className="mb-3 rounded-lg bg-green-50 border border-green-200 p-3 text-sm text-gray-900 leading-relaxed whitespace-pre-line">
+                                    {thread.suggestion}
+                                </div>
+                            )}
+                            {canEdit && thread.suggestionStatus === 'pending' && (
+                                <div className="flex justify-end gap-3 mb-3">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => handleSuggestion(thread.id, 'rejected')}
+                                        disabled={busyThread === thread.id}
+                                    >
+                                        <X className="mr-1 h-4 w-4" />
+                                        Reject
+                                    </Button>
+                                    <Button
+                                        size="sm"
+                                        onClick={() => handleSuggestion(thread.id, 'accepted')}
+                                        disabled={busyThread === thread.id || thread.isOutdated}
+                                        title={thread.isOutdated ? 'The text this suggestion replaces has changed' : undefined}
+                                    >
+                                        <Check className="mr-1 h-4 w-4" />
+                                        Accept
+                                    </Button>
+                                </div>
+                            )}
+
+                            {/* Reply */}
+                            {canComment && !thread.resolved && (
+                                <div className="flex gap-3">
+                                    <Textarea
+                                        value={replyDrafts[thread.id] || ''}
+                                        onChange={(e) => setReplyDrafts(prev => ({ ...prev, [thread.id]: e.target.value }))}
+                                        placeholder="Reply..."
+                                        rows={1}
+                                        maxLength={2000}
+                                    />
+                                    <Button
+                                        variant="outline"
+                                        onClick={() => handleReply(thread.id)}
+                                        disabled={!(replyDrafts[thread.id] || '').trim() || busyThread === thread.id}
+                                    >
+                                        Reply
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
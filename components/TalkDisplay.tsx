@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { GeneratedTalk, ChurchSource } from '@/lib/types/talks/generation'
+import { GeneratedTalk, ChurchSource, QuotationStatus } from '@/lib/types/talks/generation'
 import { getMeetingTypeLabel } from '@/lib/utils/meetingTypes'
 import { BaseComponentProps, FileActionProps, AuthContextProps } from '@/lib/types/components/common'
 
@@ -267,6 +267,24 @@ function SourceReference({ source }: SourceReferenceProps) {
         }
     }
 
+    const getVerificationBadge = (status: QuotationStatus) => {
+        switch (status) {
+            case 'verified':
+                return { label: 'Quotes verified', className: 'text-green-700 bg-green-100' }
+            case 'paraphrased':
+                return { label: 'Paraphrased', className: 'text-yellow-800 bg-yellow-100' }
+            case 'not_found':
+                return { label: 'Quote not found', className: 'text-red-700 bg-red-100' }
+            default:
+                return { label: 'Not checked', className: 'text-gray-600 bg-gray-100' }
+        }
+    }
+
+    const verification = source.verification
+    const verificationBadge = verification ? getVerificationBadge(verification.status) : null
+    // Verbatim quotes need no attention; list the rest so the speaker can check them
+    const flaggedQuotations = verification?.quotations.filter(quotation => quotation.status !== 'verified') || []
+
     return (
         <div className="flex items-start p-4 bg-blue-50 rounded-lg border border-blue-100">
             <div className="flex-shrink-0 mr-3 mt-0.5">
@@ -279,6 +297,14 @@ function SourceReference({ source }: SourceReferenceProps) {
                     <span className="text-xs font-medium text-blue-600 bg-blue-100 px-2 py-1 rounded">
                         {getSourceTypeLabel(source.type)}
                     </span>
+                    {verificationBadge && (
+                        <span
+                            className={`text-xs font-medium px-2 py-1 rounded ${verificationBadge.className}`}
+                            title={verification?.note}
+                        >
+                            {verificationBadge.label}
+                        </span>
+                    )}
                 </div>
                 <h4 className="text-sm font-medium text-gray-900 mb-1">
                     {source.title}
@@ -291,6 +317,16 @@ function SourceReference({ source }: SourceReferenceProps) {
                 >
                     {source.url}
                 </a>
+                {flaggedQuotations.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                        {flaggedQuotations.map((quotation, index) => (
+                            <li key={index} className="text-xs text-gray-600">
+                                <span className="font-medium">{getVerificationBadge(quotation.status).label}:</span>{' '}
+                                <span className="italic">&ldquo;{quotation.text}&rdquo;</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
             </div>
             <div className="flex-shrink-0 ml-2">
                 <a
@@ -7,8 +7,12 @@ import { toast } from 'sonner'
 import { useAuth } from '@/hooks/useAuth'
 import TalkDisplay from './TalkDisplay'
 import AuthModal from './AuthModal'
-import { saveTalkToDatabase } from '@/lib/actions/talks'
+import PassageRewritePanel from './PassageRewritePanel'
+import TalkRetimeControl from './TalkRetimeControl'
+import TalkCommentsPanel from './TalkCommentsPanel'
+import { saveTalkToDatabase, copySharedTalk } from '@/lib/actions/talks'
 import { GeneratedTalk } from '@/lib/types/talks/generation'
+import { getSharePermissionLabel } from '@/lib/utils/talkAccess'
 
 interface TalkDisplayWrapperProps {
     talk: GeneratedTalk
@@ -30,6 +34,7 @@ export default function TalkDisplayWrapper({
     const [isExporting, setIsExporting] = useState(false)
     const [isSaving, setIsSaving] = useState(false)
     const [showAuthModal, setShowAuthModal] = useState(false)
+    const [isCopying, setIsCopying] = useState(false)
     const router = useRouter()
     const { user } = useAuth()
 
@@ -163,6 +168,30 @@ export default function TalkDisplayWrapper({
         await performSave()
     }
 
+    const handleCopy = async () => {
+        if (!talk.id) return
+
+        setIsCopying(true)
+        try {
+            const result = await copySharedTalk(talk.id)
+
+            if (result.success && result.data) {
+                toast.success('A copy has been added to your talks')
+                router.push(`/talk/${result.data.talkId}`)
+            } else {
+                const errorMessage = result.error || 'Failed to copy talk'
+                toast.error(errorMessage)
+                onError?.(errorMessage)
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to copy talk'
+            toast.error(errorMessage)
+            onError?.(errorMessage)
+        } finally {
+            setIsCopying(false)
+        }
+    }
+
     const handleEdit = () => {
         if (talk.id) {
             router.push(`/talk/${talk.id}/edit`)
@@ -191,6 +220,23 @@ export default function TalkDisplayWrapper({
                 </div>
             )}
 
+            {/* Talks shared with the user are the author's original, not a copy */}
+            {talk.access && talk.access.level !== 'owner' && (
+                <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-lg border border-blue-200 bg-blue-50 px-4 py-3">
+                    <p className="text-sm text-blue-900">
+                        Shared with you by {talk.access.sharedBy.firstName} {talk.access.sharedBy.lastName}
+                        <span className="text-blue-700"> &middot; {getSharePermissionLabel(talk.access.level)}</span>
+                    </p>
+                    <button
+                        onClick={handleCopy}
+                        disabled={isCopying}
+                        className="text-sm font-medium text-blue-700 hover:text-blue-900 disabled:opacity-50 transition-colors"
+                    >
+                        {isCopying ? 'Copying...' : 'Make my own copy'}
+                    </button>
+                </div>
+            )}
+
             <TalkDisplay
                 talk={talk}
                 onExport={handleExport}
@@ -202,6 +248,19 @@ export default function TalkDisplayWrapper({
                 className=""
             />
 
+            {/* Retiming and targeted rewrites for saved talks */}
+            {showManagementActions && talk.id && (
+                <>
+                    <TalkRetimeControl talk={talk} className="mt-8" />
+                    <PassageRewritePanel talk={talk} className="mt-4" />
+                </>
+            )}
+
+            {/* Review comments, for the author and everyone the talk is shared with */}
+            {talk.id && talk.access && (
+                <TalkCommentsPanel talk={talk} className="mt-8" />
+            )}
+
             {/* Authentication Modal */}
             <AuthModal
                 isOpen={showAuthModal}
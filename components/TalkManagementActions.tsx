@@ -5,6 +5,8 @@ import { useRouter } from 'next/navigation'
 import { deleteSavedTalk } from '@/lib/actions/talks'
 import { GeneratedTalk } from '@/lib/types/talks/generation'
 import { ShareTalkDialog } from './ShareTalkDialog'
+import { ShareLinksDialog } from './ShareLinksDialog'
+import { TalkAccessDialog } from './TalkAccessPanel'
 
 interface TalkManagementActionsProps {
     talk: GeneratedTalk
@@ -19,6 +21,9 @@ export default function TalkManagementActions({ talk, onClose, onTalkDeleted }:
     const [error, setError] = useState<string | null>(null)
     const router = useRouter()
 
+    // Collaborators with edit access can edit, but sharing and deleting stay with the author
+    const isOwner = !talk.access || talk.access.level === 'owner'
+
     const handleDelete = async () => {
         if (!talk.id) return
 
@@ -224,30 +229,50 @@ export default function TalkManagementActions({ talk, onClose, onTalkDeleted }:
                             )}
                         </button>
 
-                        <ShareTalkDialog
-                            talk={{
-                                id: talk.id || '',
-                                title: talk.title,
-                                content: talk.content
-                            }}
-                            variant="inline"
-                            onShareComplete={() => {
-                                onClose()
-                            }}
-                        />
+                        {isOwner && (
+                            <>
+                                <ShareTalkDialog
+                                    talk={{
+                                        id: talk.id || '',
+                                        title: talk.title,
+                                        content: talk.content
+                                    }}
+                                    variant="inline"
+                                    onShareComplete={() => {
+                                        onClose()
+                                    }}
+                                />
 
-                        <button
-                            onClick={() => setShowDeleteConfirm(true)}
-                            className="w-full flex items-center px-4 py-3 text-left text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                        >
-                            <svg className="w-5 h-5 text-red-400 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                            </svg>
-                            <div>
-                                <p className="font-medium">Delete Talk</p>
-                                <p className="text-sm text-red-400">Permanently remove this talk</p>
-                            </div>
-                        </button>
+                                <ShareLinksDialog
+                                    talk={{
+                                        id: talk.id || '',
+                                        title: talk.title,
+                                        content: talk.content
+                                    }}
+                                />
+
+                                <TalkAccessDialog
+                                    talk={{
+                                        id: talk.id || '',
+                                        title: talk.title,
+                                        content: talk.content
+                                    }}
+                                />
+
+                                <button
+                                    onClick={() => setShowDeleteConfirm(true)}
+                                    className="w-full flex items-center px-4 py-3 text-left text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                >
+                                    <svg className="w-5 h-5 text-red-400 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                    </svg>
+                                    <div>
+                                        <p className="font-medium">Delete Talk</p>
+                                        <p className="text-sm text-red-400">Permanently remove this talk</p>
+                                    </div>
+                                </button>
+                            </>
+                        )}
                     </div>
                 )}
             </div>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { toast } from "sonner"
 import { FormLoadingOverlay } from "@/components/ui/LoadingOverlay"
 import { EnhancedButton } from "@/components/ui/EnhancedFormComponents"
@@ -12,19 +12,27 @@ import { BaseComponentProps, LoadingProps } from "@/lib/types/components/common"
 
 interface TalkQuestionnaireProps extends BaseComponentProps, LoadingProps {
   onSubmit: (data: TalkQuestionnaire) => void
+  onChange?: (data: TalkQuestionnaire) => void
   initialTopic?: string
+  initialData?: TalkQuestionnaire
   progress?: number
   stage?: "processing" | "generating" | "validating" | "complete"
 }
 
 export default function TalkQuestionnaire({
   onSubmit,
+  onChange,
   isLoading = false,
   initialTopic = "",
+  initialData,
   progress = 0,
   stage = "processing",
 }: TalkQuestionnaireProps) {
-  const [formData, setFormData] = useState<TalkQuestionnaire>({
+  const [formData, setFormData] = useState<TalkQuestionnaire>(() => initialData ? {
+    ...initialData,
+    // Keep at least one empty link input visible
+    gospelLibraryLinks: initialData.gospelLibraryLinks.length > 0 ? initialData.gospelLibraryLinks : [""],
+  } : {
     topic: initialTopic,
     duration: 15,
     meetingType: "sacrament",
@@ -42,6 +50,11 @@ export default function TalkQuestionnaire({
 
   const [errors, setErrors] = useState<Record<string, string>>({})
 
+  // Let the parent persist the draft as it changes
+  useEffect(() => {
+    onChange?.(formData)
+  }, [formData, onChange])
+
   const allAudienceTypes = [
     { value: "general", label: "General Congregation" },
     { value: "primary", label: "Primary (3-11)" },
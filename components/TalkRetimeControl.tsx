@@ -0,0 +1,99 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Clock, Loader2 } from 'lucide-react'
+import { retimeTalk } from '@/lib/actions/talks'
+import { GeneratedTalk } from '@/lib/types/talks/generation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { BaseComponentProps } from '@/lib/types/components/common'
+
+interface TalkRetimeControlProps extends BaseComponentProps {
+    talk: GeneratedTalk
+}
+
+export default function TalkRetimeControl({ talk, className = '' }: TalkRetimeControlProps) {
+    const [duration, setDuration] = useState(talk.duration)
+    const [isRetiming, setIsRetiming] = useState(false)
+    const router = useRouter()
+
+    const isValidDuration = Number.isInteger(duration) && duration >= 5 && duration <= 60
+
+    const handleRetime = async () => {
+        if (!talk.id || !isValidDuration) return
+
+        setIsRetiming(true)
+        const loadingToast = toast.loading(`Fitting your talk to ${duration} minutes...`, {
+            description: 'Your testimony and sources are kept exactly as they are.'
+        })
+
+        try {
+            const result = await retimeTalk(talk.id, duration)
+            toast.dismiss(loadingToast)
+
+            if (result.success && result.data) {
+                toast.success('Talk retimed', {
+                    description: `Your talk is now ${result.data.duration} minutes (${result.data.wordCount} words).`
+                })
+                router.refresh()
+            } else {
+                toast.error('Failed to retime talk', {
+                    description: result.error
+                })
+            }
+        } catch {
+            toast.dismiss(loadingToast)
+            toast.error('Failed to retime talk', {
+                description: 'An unexpected error occurred'
+            })
+        } finally {
+            setIsRetiming(false)
+        }
+    }
+
+    return (
+        <div className={`max-w-4xl mx-auto bg-white rounded-2xl shadow-xl border border-gray-100 p-6 ${className}`}>
+            <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+                <div className="flex-1">
+                    <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+                        <Clock className="w-5 h-5 mr-2 text-blue-600" />
+                        Fit to time
+                    </h2>
+                    <p className="text-sm text-gray-600 mt-1">
+                        Shorten or lengthen this talk for a new time slot. Your testimony and cited sources stay as written.
+                    </p>
+                </div>
+                <div className="flex items-end gap-3">
+                    <div className="space-y-1">
+                        <Label htmlFor="retime-duration">Minutes</Label>
+                        <Input
+                            id="retime-duration"
+                            type="number"
+                            min="5"
+                            max="60"
+                            value={duration}
+                            onChange={(e) => setDuration(parseInt(e.target.value) || 0)}
+                            className="w-24"
+                        />
+                    </div>
+                    <Button
+                        onClick={handleRetime}
+                        disabled={!isValidDuration || duration === talk.duration || isRetiming}
+                    >
+                        {isRetiming ? (
+                            <>
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                Retiming...
+                            </>
+                        ) : (
+                            'Retime'
+                        )}
+                    </Button>
+                </div>
+            </div>
+        </div>
+    )
+}
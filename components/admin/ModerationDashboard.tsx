@@ -0,0 +1,376 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Download, Loader2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import ViolationTimelineChart from './ViolationTimelineChart'
+import ViolationDetailPanel from './ViolationDetailPanel'
+import UserViolationHistory from './UserViolationHistory'
+import {
+    banUser,
+    clearRateLimitBlock,
+    dismissViolation,
+    getModeratedUserHistory,
+    getModerationOverview,
+    getViolationDetail,
+    unbanUser
+} from '@/lib/actions/moderation'
+import { exportFalsePositiveCases, resolveAppeal } from '@/lib/actions/appeals'
+import type { SecurityViolationLog } from '@/lib/security/violationLogger'
+import { ModeratedUserHistory, ModerationOverview, ViolationTimeRange } from '@/lib/types/moderation/dashboard'
+import { AppealDecision } from '@/lib/types/moderation/appeals'
+import { SEVERITY_LEVELS, getSeverityBadgeClass, getViolationTypeLabel } from '@/lib/utils/violationLabels'
+
+interface ModerationDashboardProps {
+    initialOverview: ModerationOverview
+    canBan: boolean
+}
+
+const TIME_RANGE_OPTIONS: Array<{ value: ViolationTimeRange; label: string }> = [
+    { value: 'hour', label: 'Last hour' },
+    { value: 'day', label: 'Last 24 hours' },
+    { value: 'week', label: 'Last 7 days' },
+    { value: 'month', label: 'Last 30 days' }
+]
+
+const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    })
+}
+
+export default function ModerationDashboard({ initialOverview, canBan }: ModerationDashboardProps) {
+    const [overview, setOverview] = useState(initialOverview)
+    const [isLoading, setIsLoading] = useState(false)
+    const [isBusy, setIsBusy] = useState(false)
+    const [selectedViolation, setSelectedViolation] = useState<SecurityViolationLog | null>(null)
+    const [userHistory, setUserHistory] = useState<ModeratedUserHistory | null>(null)
+
+    const loadOverview = async (timeRange: ViolationTimeRange) => {
+        setIsLoading(true)
+        try {
+            const result = await getModerationOverview(timeRange)
+            if (result.success && result.data) {
+                setOverview(result.data)
+            } else {
+                toast.error(result.error || 'Failed to load moderation data')
+            }
+        } catch {
+            toast.error('Failed to load moderation data')
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    const openViolation = async (violationId: string) => {
+        const result = await getViolationDetail(violationId)
+        if (result.success && result.data) {
+            setSelectedViolation(result.data)
+        } else {
+            toast.error(result.error || 'Failed to load violation')
+        }
+    }
+
+    const openUserHistory = async (userId: string) => {
+        const result = await getModeratedUserHistory(userId)
+        if (result.success && result.data) {
+            setUserHistory(result.data)
+        } else {
+            toast.error(result.error || 'Failed to load violation history')
+        }
+    }
+
+    // Runs a moderation action, then reloads whatever is on screen
+    const runAction = async (action: () => Promise<{ success: boolean; error?: string }>, successMessage: string) => {
+        setIsBusy(true)
+        try {
+            const result = await action()
+            if (!result.success) {
+                toast.error(result.error || 'Action failed')
+                return
+            }
+
+            toast.success(successMessage)
+            await Promise.all([
+                loadOverview(overview.timeRange),
+                selectedViolation ? openViolation(selectedViolation.id) : Promise.resolve(),
+                userHistory ? openUserHistory(userHistory.user.id) : Promise.resolve()
+            ])
+        } catch {
+            toast.error('An unexpected error occurred')
+        } finally {
+            setIsBusy(false)
+        }
+    }
+
+    const handleDismiss = (violationId: string) =>
+        runAction(() => dismissViolation(violationId), 'Violation dismissed as a false positive')
+
+    const handleClearRateLimit = (target: { userId?: string; ipAddress?: string }) =>
+        runAction(() => clearRateLimitBlock(target), 'Rate limit cleared')
+
+    const handleBan = (userId: string, reason: string) =>
+        runAction(() => banUser(userId, reason), 'Account banned')
+
+    const handleUnban = (userId: string) =>
+        runAction(() => unbanUser(userId), 'Ban lifted')
+
+    const handleResolveAppeal = (violationId: string, decision: AppealDecision, reviewNote: string) =>
+        runAction(
+            () => resolveAppeal(violationId, decision, reviewNote),
+            decision === 'overturned' ? 'Appeal accepted and block lifted' : 'Flag upheld'
+        )
+
+    // Downloads confirmed false positives as JSON regression cases for the filter
+    const handleExportFalsePositives = async () => {
+        setIsBusy(true)
+        try {
+            const result = await exportFalsePositiveCases()
+            if (!result.success || !result.data) {
+                toast.error(result.error || 'Failed to export false positives')
+                return
+            }
+
+            const blob = new Blob([JSON.stringify(result.data, null, 2)], { type: 'application/json' })
+            const url = URL.createObjectURL(blob)
+            const a = document.createElement('a')
+            a.href = url
+            a.download = `false-positive-cases-${new Date().toISOString().slice(0, 10)}.json`
+            document.body.appendChild(a)
+            a.click()
+            document.body.removeChild(a)
+            URL.revokeObjectURL(url)
+
+            toast.success(`Exported ${result.data.length} case${result.data.length === 1 ? '' : 's'}`)
+        } catch {
+            toast.error('Failed to export false positives')
+        } finally {
+            setIsBusy(false)
+        }
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Time range */}
+            <div className="flex flex-wrap items-center gap-2">
+                {TIME_RANGE_OPTIONS.map(option => (
+                    <button
+                        key={option.value}
+                        onClick={() => loadOverview(option.value)}
+                        disabled={isLoading}
+                        className={`px-3 py-1.5 text-sm font-medium rounded-full border transition-colors ${overview.timeRange === option.value
+                            ? 'border-blue-600 bg-blue-600 text-white'
+                            : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                            }`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+                {isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+            </div>
+
+            {/* Summary */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {[
+                    { label: 'Violations', value: overview.totalViolations },
+                    { label: 'Users involved', value: overview.uniqueUsers },
+                    { label: 'IP addresses', value: overview.uniqueIPs }
+                ].map(stat => (
+                    <div key={stat.label} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+                        <p className="text-sm text-gray-500">{stat.label}</p>
+                        <p className="text-3xl font-bold text-gray-900 mt-1">{stat.value}</p>
+                    </div>
+                ))}
+            </div>
+
+            {/* Over time */}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="lg:col-span-2 bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4">Violations over time</h2>
+                    <ViolationTimelineChart timeline={overview.timeline} timeRange={overview.timeRange} />
+                </div>
+
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 space-y-6">
+                    <div>
+                        <h2 className="text-sm font-semibold text-gray-900 mb-2">By type</h2>
+                        <ul className="space-y-1 text-sm">
+                            {Object.entries(overview.violationsByType).length === 0 && (
+                                <li className="text-gray-500">No violations</li>
+                            )}
+                            {Object.entries(overview.violationsByType)
+                                .sort(([, a], [, b]) => b - a)
+                                .map(([type, count]) => (
+                                    <li key={type} className="flex justify-between">
+                                        <span className="text-gray-700">{getViolationTypeLabel(type)}</span>
+                                        <span className="font-medium text-gray-900">{count}</span>
+                                    </li>
+                                ))}
+                        </ul>
+                    </div>
+                    <div>
+                        <h2 className="text-sm font-semibold text-gray-900 mb-2">By severity</h2>
+                        <ul className="space-y-1 text-sm">
+                            {SEVERITY_LEVELS.map(severity => (
+                                <li key={severity} className="flex justify-between">
+                                    <span className="text-gray-700 capitalize">{severity}</span>
+                                    <span className="font-medium text-gray-900">{overview.violationsBySeverity[severity] || 0}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                    {overview.topPatterns.length > 0 && (
+                        <div>
+                            <h2 className="text-sm font-semibold text-gray-900 mb-2">Top patterns</h2>
+                            <ul className="space-y-1 text-xs">
+                                {overview.topPatterns.slice(0, 5).map(({ pattern, count }) => (
+                                    <li key={pattern} className="flex justify-between gap-3">
+                                        <span className="text-gray-700 truncate font-mono">{pattern}</span>
+                                        <span className="font-medium text-gray-900">{count}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Lists and drill-down */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+                    <Tabs defaultValue="violations" className="space-y-4">
+                        <TabsList className="grid w-full grid-cols-3 max-w-md">
+                            <TabsTrigger value="violations">Recent violations</TabsTrigger>
+                            <TabsTrigger value="users">Users</TabsTrigger>
+                            <TabsTrigger value="appeals">
+                                Appeals{overview.pendingAppeals.length > 0 && ` (${overview.pendingAppeals.length})`}
+                            </TabsTrigger>
+                        </TabsList>
+
+                        <TabsContent value="violations">
+                            <div className="divide-y divide-gray-100">
+                                {overview.recentViolations.length === 0 && (
+                                    <p className="py-4 text-sm text-gray-500">No violations recorded.</p>
+                                )}
+                                {overview.recentViolations.map(violation => (
+                                    <button
+                                        key={violation.id}
+                                        onClick={() => openViolation(violation.id)}
+                                        className={`w-full text-left py-3 px-2 rounded hover:bg-gray-50 transition-colors ${selectedViolation?.id === violation.id ? 'bg-blue-50' : ''} ${violation.dismissedAt ? 'opacity-60' : ''}`}
+                                    >
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="text-sm font-medium text-gray-900">{getViolationTypeLabel(violation.type)}</span>
+                                            <Badge variant="outline" className={`capitalize ${getSeverityBadgeClass(violation.severity)}`}>
+                                                {violation.severity}
+                                            </Badge>
+                                        </div>
+                                        <p className="text-xs text-gray-500 mt-1 truncate">{violation.description}</p>
+                                        <p className="text-xs text-gray-400 mt-1">
+                                            {formatDate(violation.createdAt)}
+                                            {violation.dismissedAt && ' · dismissed'}
+                                        </p>
+                                    </button>
+                                ))}
+                            </div>
+                        </TabsContent>
+
+                        <TabsContent value="users">
+                            <div className="divide-y divide-gray-100">
+                                {overview.topUsers.length === 0 && (
+                                    <p className="py-4 text-sm text-gray-500">No signed-in users with violations in this period.</p>
+                                )}
+                                {overview.topUsers.map(summary => (
+                                    <button
+                                        key={summary.userId}
+                                        onClick={() => openUserHistory(summary.userId)}
+                                        className={`w-full text-left py-3 px-2 rounded hover:bg-gray-50 transition-colors ${userHistory?.user.id === summary.userId ? 'bg-blue-50' : ''}`}
+                                    >
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="text-sm font-medium text-gray-900">
+                                                {summary.firstName} {summary.lastName}
+                                                {summary.bannedAt && <span className="ml-2 text-xs text-red-600">Banned</span>}
+                                            </span>
+                                            <span className="text-sm font-medium text-gray-900">{summary.violationCount}</span>
+                                        </div>
+                                        <p className="text-xs text-gray-500 mt-1">
+                                            {summary.email} · highest <span className="capitalize">{summary.highestSeverity}</span> · last {formatDate(summary.lastViolationAt)}
+                                        </p>
+                                    </button>
+                                ))}
+                            </div>
+                        </TabsContent>
+
+                        <TabsContent value="appeals">
+                            <div className="flex justify-end mb-2">
+                                <Button variant="outline" size="sm" onClick={handleExportFalsePositives} disabled={isBusy}>
+                                    <Download className="h-4 w-4" />
+                                    Export false positives
+                                </Button>
+                            </div>
+                            <div className="divide-y divide-gray-100">
+                                {overview.pendingAppeals.length === 0 && (
+                                    <p className="py-4 text-sm text-gray-500">No appeals waiting for review.</p>
+                                )}
+                                {overview.pendingAppeals.map(violation => (
+                                    <button
+                                        key={violation.id}
+                                        onClick={() => openViolation(violation.id)}
+                                        className={`w-full text-left py-3 px-2 rounded hover:bg-gray-50 transition-colors ${selectedViolation?.id === violation.id ? 'bg-blue-50' : ''}`}
+                                    >
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="text-sm font-medium text-gray-900">{getViolationTypeLabel(violation.type)}</span>
+                                            <Badge variant="outline" className={`capitalize ${getSeverityBadgeClass(violation.severity)}`}>
+                                                {violation.severity}
+                                            </Badge>
+                                        </div>
+                                        <p className="text-xs text-gray-500 mt-1 truncate">{violation.appealNote}</p>
+                                        {violation.appealedAt && (
+                                            <p className="text-xs text-gray-400 mt-1">Appealed {formatDate(violation.appealedAt)}</p>
+                                        )}
+                                    </button>
+                                ))}
+                            </div>
+                        </TabsContent>
+                    </Tabs>
+                </div>
+
+                <div className="space-y-6">
+                    {selectedViolation && (
+                        <ViolationDetailPanel
+                            key={selectedViolation.id}
+                            violation={selectedViolation}
+                            isBusy={isBusy}
+                            onClose={() => setSelectedViolation(null)}
+                            onDismiss={handleDismiss}
+                            onClearRateLimit={handleClearRateLimit}
+                            onViewUser={openUserHistory}
+                            onResolveAppeal={handleResolveAppeal}
+                        />
+                    )}
+                    {userHistory && (
+                        <UserViolationHistory
+                            history={userHistory}
+                            canBan={canBan}
+                            isBusy={isBusy}
+                            onClose={() => setUserHistory(null)}
+                            onSelectViolation={openViolation}
+                            onClearRateLimit={handleClearRateLimit}
+                            onBan={handleBan}
+                            onUnban={handleUnban}
+                        />
+                    )}
+                    {!selectedViolation && !userHistory && (
+                        <div className="bg-white rounded-2xl shadow-sm border border-dashed border-gray-200 p-6 text-sm text-gray-500">
+                            Select a violation to see what triggered it, or a user to see their history.
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,316 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+    activateRuleSet,
+    createRuleSetVersion,
+    dryRunRuleSet,
+    getRuleSet,
+    listRuleSets
+} from '@/lib/actions/ruleSets'
+import { DryRunOutcome, ModerationRuleSetSummary, RuleSetDryRunResult } from '@/lib/types/moderation/ruleSets'
+import { getSeverityBadgeClass, getViolationTypeLabel } from '@/lib/utils/violationLabels'
+
+interface RuleSetManagerProps {
+    initialRuleSets: ModerationRuleSetSummary[]
+    initialDefinition: unknown // Definition of the active rule set, used to start a new version
+    canEdit: boolean
+}
+
+const STATUS_BADGE_CLASSES: Record<ModerationRuleSetSummary['status'], string> = {
+    active: 'bg-green-50 text-green-800 border-green-200',
+    draft: 'bg-yellow-50 text-yellow-800 border-yellow-200',
+    archived: 'bg-gray-50 text-gray-600 border-gray-200'
+}
+
+const OUTCOME_LABELS: Record<DryRunOutcome, string> = {
+    still_flagged: 'Still flagged',
+    severity_changed: 'Severity changed',
+    cleared: 'Would clear'
+}
+
+const formatDate = (date: Date | null) => {
+    if (!date) return '—'
+    return new Date(date).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric'
+    })
+}
+
+export default function RuleSetManager({ initialRuleSets, initialDefinition, canEdit }: RuleSetManagerProps) {
+    const [ruleSets, setRuleSets] = useState(initialRuleSets)
+    const [name, setName] = useState('')
+    const [notes, setNotes] = useState('')
+    const [definitionText, setDefinitionText] = useState(() => JSON.stringify(initialDefinition, null, 2))
+    const [dryRun, setDryRun] = useState<{ label: string; result: RuleSetDryRunResult } | null>(null)
+    const [showUnchanged, setShowUnchanged] = useState(false)
+    const [isBusy, setIsBusy] = useState(false)
+
+    const reloadRuleSets = async () => {
+        const result = await listRuleSets()
+        if (result.success && result.data) {
+            setRuleSets(result.data)
+        }
+    }
+
+    // Parses the editor contents, reporting invalid JSON
+    const parseDefinition = (): unknown | undefined => {
+        try {
+            return JSON.parse(definitionText)
+        } catch {
+            toast.error('The rule set definition is not valid JSON')
+            return undefined
+        }
+    }
+
+    const runDryRun = async (candidate: { version: number } | { definition: unknown }, label: string) => {
+        setIsBusy(true)
+        try {
+            const result = await dryRunRuleSet(candidate)
+            if (result.success && result.data) {
+                setDryRun({ label, result: result.data })
+            } else {
+                toast.error(result.error || 'Dry run failed')
+            }
+        } catch {
+            toast.error('Dry run failed')
+        } finally {
+            setIsBusy(false)
+        }
+    }
+
+    const handleDryRunDraft = () => {
+        const definition = parseDefinition()
+        if (definition !== undefined) {
+            runDryRun({ definition }, 'Unsaved draft')
+        }
+    }
+
+    const handleLoadDefinition = async (version: number) => {
+        const result = await getRuleSet(version)
+        if (result.success && result.data) {
+            setDefinitionText(JSON.stringify(result.data.definition, null, 2))
+            toast.success(`Loaded version ${version} into the editor`)
+        } else {
+            toast.error(result.error || 'Failed to load rule set')
+        }
+    }
+
+    const handleSave = async () => {
+        const definition = parseDefinition()
+        if (definition === undefined) return
+
+        setIsBusy(true)
+        try {
+            const result = await createRuleSetVersion({ name, notes, definition })
+            if (result.success && result.data) {
+                toast.success(`Saved version ${result.data.version} as a draft`)
+                setName('')
+                setNotes('')
+                await reloadRuleSets()
+            } else {
+                toast.error(result.error || 'Failed to save rule set')
+            }
+        } catch {
+            toast.error('Failed to save rule set')
+        } finally {
+            setIsBusy(false)
+        }
+    }
+
+    const handleActivate = async (version: number) => {
+        setIsBusy(true)
+        try {
+            const result = await activateRuleSet(version)
+            if (result.success) {
+                toast.success(`Version ${version} is now active`)
+                await reloadRuleSets()
+            } else {
+                toast.error(result.error || 'Failed to activate rule set')
+            }
+        } catch {
+            toast.error('Failed to activate rule set')
+        } finally {
+            setIsBusy(false)
+        }
+    }
+
+    const visibleResults = dryRun
+        ? dryRun.result.results.filter(result => showUnchanged || result.outcome !== 'still_flagged')
+        : []
+
+    return (
+        <div className="space-y-6">
+            {/* Versions */}
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Versions</h2>
+                <div className="divide-y divide-gray-100">
+                    {ruleSets.map(ruleSet => (
+                        <div key={ruleSet.version} className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                            <div>
+                                <div className="flex items-center gap-2">
+                                    <span className="text-sm font-medium text-gray-900">v{ruleSet.version} · {ruleSet.name}</span>
+                                    <Badge variant="outline" className={`capitalize ${STATUS_BADGE_CLASSES[ruleSet.status]}`}>
+                                        {ruleSet.status}
+                                    </Badge>
+                                </div>
+                                {ruleSet.notes && <p className="text-xs text-gray-500 mt-1">{ruleSet.notes}</p>}
+                                {!ruleSet.builtIn && (
+                                    <p className="text-xs text-gray-400 mt-1">
+                                        Created {formatDate(ruleSet.createdAt)}
+                                        {ruleSet.activatedAt && ` · last activated ${formatDate(ruleSet.activatedAt)}`}
+                                    </p>
+                                )}
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                                <Button variant="outline" size="sm" onClick={() => handleLoadDefinition(ruleSet.version)} disabled={isBusy}>
+                                    Edit a copy
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => runDryRun({ version: ruleSet.version }, `Version ${ruleSet.version}`)}
+                                    disabled={isBusy}
+                                >
+                                    Dry run
+                                </Button>
+                                {canEdit && ruleSet.status !== 'active' && (
+                                    <Button size="sm" onClick={() => handleActivate(ruleSet.version)} disabled={isBusy}>
+                                        Activate
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {/* Editor */}
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 space-y-4">
+                <div>
+                    <h2 className="text-lg font-semibold text-gray-900">New version</h2>
+                    <p className="text-sm text-gray-600 mt-1">
+                        Patterns are regular expressions. Dry run your changes against past violations before saving.
+                    </p>
+                </div>
+                <Textarea
+                    value={definitionText}
+                    onChange={(e) => setDefinitionText(e.target.value)}
+                    rows={18}
+                    spellCheck={false}
+                    className="font-mono text-xs"
+                    aria-label="Rule set definition"
+                />
+                {canEdit && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="rule-set-name">Name</Label>
+                            <Input
+                                id="rule-set-name"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                placeholder="e.g. Fewer false positives on grief stories"
+                                maxLength={100}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="rule-set-notes">Notes</Label>
+                            <Input
+                                id="rule-set-notes"
+                                value={notes}
+                                onChange={(e) => setNotes(e.target.value)}
+                                placeholder="What changed and why"
+                                maxLength={500}
+                            />
+                        </div>
+                    </div>
+                )}
+                <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" onClick={handleDryRunDraft} disabled={isBusy}>
+                        Dry run draft
+                    </Button>
+                    {canEdit && (
+                        <Button onClick={handleSave} disabled={isBusy || name.trim().length === 0}>
+                            Save as draft version
+                        </Button>
+                    )}
+                    {isBusy && <Loader2 className="h-4 w-4 animate-spin text-gray-500 self-center" />}
+                </div>
+            </div>
+
+            {/* Dry run results */}
+            {dryRun && (
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+                    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
+                        <h2 className="text-lg font-semibold text-gray-900">Dry run: {dryRun.label}</h2>
+                        <label className="flex items-center gap-2 text-sm text-gray-600">
+                            <input
+                                type="checkbox"
+                                checked={showUnchanged}
+                                onChange={(e) => setShowUnchanged(e.target.checked)}
+                            />
+                            Show unchanged
+                        </label>
+                    </div>
+
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-4">
+                        {[
+                            { label: 'Evaluated', value: dryRun.result.evaluatedCount },
+                            ...(Object.keys(OUTCOME_LABELS) as DryRunOutcome[]).map(outcome => ({
+                                label: OUTCOME_LABELS[outcome],
+                                value: dryRun.result.outcomes[outcome]
+                            }))
+                        ].map(stat => (
+                            <div key={stat.label} className="rounded-lg border border-gray-100 p-3">
+                                <p className="text-xs text-gray-500">{stat.label}</p>
+                                <p className="text-xl font-bold text-gray-900">{stat.value}</p>
+                            </div>
+                        ))}
+                    </div>
+                    {dryRun.result.skippedCount > 0 && (
+                        <p className="text-xs text-gray-500 mb-4">
+                            {dryRun.result.skippedCount} violation{dryRun.result.skippedCount === 1 ? '' : 's'} skipped (policy violations aren&apos;t produced by rule sets).
+                        </p>
+                    )}
+
+                    <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg max-h-[32rem] overflow-y-auto">
+                        {visibleResults.length === 0 ? (
+                            <p className="p-4 text-sm text-gray-500">No changes compared with the recorded violations.</p>
+                        ) : visibleResults.map(result => (
+                            <div key={result.violationId} className="p-3 space-y-1">
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <span className="text-sm font-medium text-gray-900">{getViolationTypeLabel(result.type)}</span>
+                                    <Badge variant="outline" className={`capitalize ${getSeverityBadgeClass(result.severity)}`}>
+                                        {result.severity}
+                                    </Badge>
+                                    {result.newSeverity && result.newSeverity !== result.severity && (
+                                        <>
+                                            <span className="text-xs text-gray-400">→</span>
+                                            <Badge variant="outline" className={`capitalize ${getSeverityBadgeClass(result.newSeverity)}`}>
+                                                {result.newSeverity}
+                                            </Badge>
+                                        </>
+                                    )}
+                                    <span className="text-xs font-medium text-gray-600">{OUTCOME_LABELS[result.outcome]}</span>
+                                </div>
+                                <p className="text-xs text-gray-400">
+                                    {formatDate(result.createdAt)} · recorded by {result.ruleSetVersion ? `v${result.ruleSetVersion}` : 'an unversioned rule set'}
+                                    {result.detectedPatterns.length > 0 && ` · matches ${result.detectedPatterns.join(', ')}`}
+                                </p>
+                                <p className="text-xs text-gray-700 line-clamp-2 break-words">{result.userInput}</p>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
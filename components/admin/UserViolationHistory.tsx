@@ -0,0 +1,147 @@
+'use client'
+
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { ModeratedUserHistory } from '@/lib/types/moderation/dashboard'
+import { getSeverityBadgeClass, getViolationTypeLabel } from '@/lib/utils/violationLabels'
+import { BaseComponentProps } from '@/lib/types/components/common'
+
+interface UserViolationHistoryProps extends BaseComponentProps {
+    history: ModeratedUserHistory
+    canBan: boolean
+    isBusy?: boolean
+    onClose: () => void
+    onSelectViolation: (violationId: string) => void
+    onClearRateLimit: (target: { userId: string }) => void
+    onBan: (userId: string, reason: string) => void
+    onUnban: (userId: string) => void
+}
+
+const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    })
+}
+
+export default function UserViolationHistory({
+    history,
+    canBan,
+    isBusy = false,
+    onClose,
+    onSelectViolation,
+    onClearRateLimit,
+    onBan,
+    onUnban,
+    className = ''
+}: UserViolationHistoryProps) {
+    const [banReason, setBanReason] = useState('')
+    const { user, violations } = history
+
+    return (
+        <div className={`bg-white rounded-2xl shadow-sm border border-gray-100 p-6 ${className}`}>
+            <div className="flex items-start justify-between mb-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-900">{user.firstName} {user.lastName}</h3>
+                    <p className="text-sm text-gray-600">{user.email}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                        <span className="capitalize">{user.role}</span> · Joined {formatDate(user.createdAt)}
+                    </p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="text-gray-400 hover:text-gray-600"
+                    aria-label="Close user history"
+                >
+                    <X className="h-5 w-5" />
+                </button>
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+                {user.bannedAt && (
+                    <Badge variant="destructive">Banned {formatDate(user.bannedAt)}</Badge>
+                )}
+                {history.isRateLimited && (
+                    <Badge variant="outline" className="bg-orange-50 text-orange-800 border-orange-200">
+                        Rate limited{history.nextAllowedTime ? ` until ${formatDate(history.nextAllowedTime)}` : ''}
+                    </Badge>
+                )}
+                <Badge variant="secondary">{violations.length} recorded violation{violations.length === 1 ? '' : 's'}</Badge>
+            </div>
+
+            {user.banReason && (
+                <p className="text-sm text-gray-700 mb-4">
+                    <span className="font-medium">Ban reason:</span> {user.banReason}
+                </p>
+            )}
+
+            {/* Violation history */}
+            <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg max-h-80 overflow-y-auto mb-6">
+                {violations.length === 0 ? (
+                    <p className="p-4 text-sm text-gray-500">No violations recorded for this user.</p>
+                ) : violations.map(violation => (
+                    <button
+                        key={violation.id}
+                        onClick={() => onSelectViolation(violation.id)}
+                        className={`w-full text-left p-3 hover:bg-gray-50 transition-colors ${violation.dismissedAt ? 'opacity-60' : ''}`}
+                    >
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="text-sm font-medium text-gray-900">{getViolationTypeLabel(violation.type)}</span>
+                            <Badge variant="outline" className={`capitalize ${getSeverityBadgeClass(violation.severity)}`}>
+                                {violation.severity}
+                            </Badge>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                            {formatDate(violation.createdAt)}
+                            {violation.violationCount > 1 && ` · ${violation.violationCount} times`}
+                            {violation.dismissedAt && ' · dismissed'}
+                        </p>
+                    </button>
+                ))}
+            </div>
+
+            {/* Actions */}
+            <div className="space-y-4">
+                {history.isRateLimited && (
+                    <Button variant="outline" onClick={() => onClearRateLimit({ userId: user.id })} disabled={isBusy}>
+                        Clear rate limit
+                    </Button>
+                )}
+
+                {canBan && user.role !== 'admin' && (
+                    user.bannedAt ? (
+                        <Button variant="outline" onClick={() => onUnban(user.id)} disabled={isBusy}>
+                            Lift ban
+                        </Button>
+                    ) : (
+                        <div className="space-y-2">
+                            <Label htmlFor="ban-reason">Ban this account</Label>
+                            <Textarea
+                                id="ban-reason"
+                                value={banReason}
+                                onChange={(e) => setBanReason(e.target.value)}
+                                placeholder="Reason for the ban (kept with the account)"
+                                maxLength={500}
+                                rows={2}
+                            />
+                            <Button
+                                variant="destructive"
+                                onClick={() => onBan(user.id, banReason)}
+                                disabled={isBusy || banReason.trim().length === 0}
+                            >
+                                Ban account
+                            </Button>
+                        </div>
+                    )
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,186 @@
+'use client'
+
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import type { SecurityViolationLog } from '@/lib/security/violationLogger'
+import { getSeverityBadgeClass, getViolationTypeLabel } from '@/lib/utils/violationLabels'
+import { BaseComponentProps } from '@/lib/types/components/common'
+import { AppealDecision } from '@/lib/types/moderation/appeals'
+
+interface ViolationDetailPanelProps extends BaseComponentProps {
+    violation: SecurityViolationLog
+    isBusy?: boolean
+    onClose: () => void
+    onDismiss: (violationId: string) => void
+    onClearRateLimit: (target: { userId?: string; ipAddress?: string }) => void
+    onViewUser: (userId: string) => void
+    onResolveAppeal: (violationId: string, decision: AppealDecision, reviewNote: string) => void
+}
+
+const formatDateTime = (date: Date) => {
+    return new Date(date).toLocaleString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    })
+}
+
+export default function ViolationDetailPanel({
+    violation,
+    isBusy = false,
+    onClose,
+    onDismiss,
+    onClearRateLimit,
+    onViewUser,
+    onResolveAppeal,
+    className = ''
+}: ViolationDetailPanelProps) {
+    const [reviewNote, setReviewNote] = useState('')
+
+    const rateLimitTarget = violation.userId
+        ? { userId: violation.userId }
+        : violation.ipAddress ? { ipAddress: violation.ipAddress } : null
+
+    return (
+        <div className={`bg-white rounded-2xl shadow-sm border border-gray-100 p-6 ${className}`}>
+            <div className="flex items-start justify-between mb-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-900">{getViolationTypeLabel(violation.type)}</h3>
+                    <p className="text-sm text-gray-600 mt-1">{violation.description}</p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="text-gray-400 hover:text-gray-600"
+                    aria-label="Close violation details"
+                >
+                    <X className="h-5 w-5" />
+                </button>
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+                <Badge variant="outline" className={`capitalize ${getSeverityBadgeClass(violation.severity)}`}>
+                    {violation.severity}
+                </Badge>
+                <Badge variant="secondary">
+                    {violation.violationCount} occurrence{violation.violationCount === 1 ? '' : 's'}
+                </Badge>
+                {violation.dismissedAt && (
+                    <Badge variant="outline">Dismissed {formatDateTime(violation.dismissedAt)}</Badge>
+                )}
+                {violation.rateLimitClearedAt && (
+                    <Badge variant="outline">Block cleared {formatDateTime(violation.rateLimitClearedAt)}</Badge>
+                )}
+            </div>
+
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm mb-4">
+                <div>
+                    <dt className="text-gray-500">First seen</dt>
+                    <dd className="text-gray-900">{formatDateTime(violation.createdAt)}</dd>
+                </div>
+                <div>
+                    <dt className="text-gray-500">Last seen</dt>
+                    <dd className="text-gray-900">{formatDateTime(violation.lastViolationAt)}</dd>
+                </div>
+                <div>
+                    <dt className="text-gray-500">IP address</dt>
+                    <dd className="text-gray-900">{violation.ipAddress || 'Unknown'}</dd>
+                </div>
+                <div>
+                    <dt className="text-gray-500">User</dt>
+                    <dd className="text-gray-900">
+                        {violation.userId ? (
+                            <button
+                                onClick={() => onViewUser(violation.userId!)}
+                                className="text-blue-600 hover:text-blue-700 font-medium"
+                            >
+                                View history
+                            </button>
+                        ) : 'Anonymous'}
+                    </dd>
+                </div>
+                <div>
+                    <dt className="text-gray-500">Rule set</dt>
+                    <dd className="text-gray-900">
+                        {violation.ruleSetVersion ? `Version ${violation.ruleSetVersion}` : 'Not recorded'}
+                    </dd>
+                </div>
+                {violation.userAgent && (
+                    <div className="sm:col-span-2">
+                        <dt className="text-gray-500">User agent</dt>
+                        <dd className="text-gray-900 break-all">{violation.userAgent}</dd>
+                    </div>
+                )}
+            </dl>
+
+            <div className="space-y-3 mb-6">
+                <div>
+                    <h4 className="text-sm font-medium text-gray-500 mb-1">Detected pattern</h4>
+                    <pre className="whitespace-pre-wrap break-words rounded-lg bg-gray-50 border border-gray-200 p-3 text-xs text-gray-800">
+                        {violation.detectedPattern}
+                    </pre>
+                </div>
+                <div>
+                    <h4 className="text-sm font-medium text-gray-500 mb-1">User input</h4>
+                    <pre className="whitespace-pre-wrap break-words rounded-lg bg-gray-50 border border-gray-200 p-3 text-xs text-gray-800 max-h-64 overflow-y-auto">
+                        {violation.userInput || 'Not recorded'}
+                    </pre>
+                </div>
+            </div>
+
+            {violation.appealStatus && (
+                <div className="mb-6 rounded-lg border border-blue-200 bg-blue-50 p-4 space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                        <h4 className="text-sm font-medium text-blue-900">User appeal</h4>
+                        <Badge variant="outline" className="capitalize">{violation.appealStatus}</Badge>
+                    </div>
+                    <p className="text-sm text-blue-900 whitespace-pre-wrap break-words">{violation.appealNote}</p>
+                    {violation.appealedAt && (
+                        <p className="text-xs text-blue-700">Appealed {formatDateTime(violation.appealedAt)}</p>
+                    )}
+
+                    {violation.appealStatus === 'pending' ? (
+                        <div className="space-y-2">
+                            <Textarea
+                                value={reviewNote}
+                                onChange={(e) => setReviewNote(e.target.value)}
+                                placeholder="Optional note on your decision"
+                                maxLength={1000}
+                                rows={2}
+                                className="bg-white"
+                            />
+                            <div className="flex flex-wrap gap-2">
+                                <Button onClick={() => onResolveAppeal(violation.id, 'overturned', reviewNote)} disabled={isBusy}>
+                                    Overturn and lift block
+                                </Button>
+                                <Button variant="outline" onClick={() => onResolveAppeal(violation.id, 'upheld', reviewNote)} disabled={isBusy}>
+                                    Uphold flag
+                                </Button>
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="text-xs text-blue-700">
+                            {violation.appealReviewedAt && `Reviewed ${formatDateTime(violation.appealReviewedAt)}`}
+                            {violation.appealReviewNote && ` · ${violation.appealReviewNote}`}
+                        </p>
+                    )}
+                </div>
+            )}
+
+            <div className="flex flex-wrap justify-end gap-3">
+                {rateLimitTarget && (
+                    <Button variant="outline" onClick={() => onClearRateLimit(rateLimitTarget)} disabled={isBusy}>
+                        Clear rate limit
+                    </Button>
+                )}
+                <Button onClick={() => onDismiss(violation.id)} disabled={isBusy || !!violation.dismissedAt}>
+                    {violation.dismissedAt ? 'Dismissed' : 'Dismiss as false positive'}
+                </Button>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,64 @@
+'use client'
+
+import { ViolationTimeRange, ViolationTimelineBucket } from '@/lib/types/moderation/dashboard'
+import { SEVERITY_LEVELS, getSeverityBarClass } from '@/lib/utils/violationLabels'
+import { BaseComponentProps } from '@/lib/types/components/common'
+
+interface ViolationTimelineChartProps extends BaseComponentProps {
+    timeline: ViolationTimelineBucket[]
+    timeRange: ViolationTimeRange
+}
+
+const formatBucketLabel = (start: Date, timeRange: ViolationTimeRange) => {
+    const date = new Date(start)
+    if (timeRange === 'hour' || timeRange === 'day') {
+        return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+    }
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+export default function ViolationTimelineChart({ timeline, timeRange, className = '' }: ViolationTimelineChartProps) {
+    const maxTotal = Math.max(1, ...timeline.map(bucket => bucket.total))
+
+    return (
+        <div className={className}>
+            {/* Stacked bars, one per bucket, split by severity */}
+            <div className="flex items-end gap-1 h-40">
+                {timeline.map(bucket => (
+                    <div
+                        key={new Date(bucket.start).toISOString()}
+                        className="flex-1 flex flex-col-reverse h-full"
+                        title={`${formatBucketLabel(bucket.start, timeRange)}: ${bucket.total} violation${bucket.total === 1 ? '' : 's'}`}
+                    >
+                        {SEVERITY_LEVELS.map(severity => {
+                            const count = bucket.bySeverity[severity] || 0
+                            if (count === 0) return null
+
+                            return (
+                                <div
+                                    key={severity}
+                                    className={`${getSeverityBarClass(severity)} first:rounded-b last:rounded-t`}
+                                    style={{ height: `${(count / maxTotal) * 100}%` }}
+                                />
+                            )
+                        })}
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex justify-between text-xs text-gray-500 mt-2">
+                <span>{timeline.length > 0 ? formatBucketLabel(timeline[0].start, timeRange) : ''}</span>
+                <span>{timeline.length > 0 ? formatBucketLabel(timeline[timeline.length - 1].start, timeRange) : ''}</span>
+            </div>
+
+            <div className="flex flex-wrap gap-4 mt-3 text-xs text-gray-600">
+                {SEVERITY_LEVELS.map(severity => (
+                    <span key={severity} className="flex items-center capitalize">
+                        <span className={`inline-block w-3 h-3 rounded-sm mr-1 ${getSeverityBarClass(severity)}`} />
+                        {severity}
+                    </span>
+                ))}
+            </div>
+        </div>
+    )
+}
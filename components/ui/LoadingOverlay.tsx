@@ -3,6 +3,7 @@
 import { ReactNode } from 'react'
 import LoadingSpinner from './LoadingSpinner'
 import { TalkGenerationProgress } from './ProgressBar'
+import type { TalkGenerationStage } from '@/lib/types/talks/generation'
 
 interface LoadingOverlayProps {
  isLoading: boolean
@@ -42,14 +43,14 @@ export default function LoadingOverlay({
 interface TalkGenerationOverlayProps {
  isLoading: boolean
  children: ReactNode
- stage?: 'processing' | 'generating' | 'validating' | 'complete'
+ stage?: TalkGenerationStage
  progress?: number
 }
 
 export function TalkGenerationOverlay({
  isLoading,
  children,
- stage = 'processing',
+ stage = 'validating_input',
  progress = 0
 }: TalkGenerationOverlayProps) {
  return (
@@ -1,6 +1,8 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import type { TalkGenerationStage } from '@/lib/types/talks/generation'
+import { TALK_GENERATION_STAGES, getGenerationStageLabel } from '@/lib/utils/generationStages'
 
 interface ProgressBarProps {
  progress: number // 0-100
@@ -88,33 +90,24 @@ export default function ProgressBar({
 
 // Specialized progress components
 interface TalkGenerationProgressProps {
- stage: 'processing' | 'generating' | 'validating' | 'complete'
+ stage: TalkGenerationStage
  progress: number
 }
 
 export function TalkGenerationProgress({ stage, progress }: TalkGenerationProgressProps) {
- const getStageText = () => {
- switch (stage) {
- case 'processing':
- return 'Processing your questionnaire...'
- case 'generating':
- return 'Generating your talk...'
- case 'validating':
- return 'Validating content...'
- case 'complete':
- return 'Complete!'
- default:
- return 'Processing...'
- }
- }
+ const currentIndex = TALK_GENERATION_STAGES.findIndex(s => s.stage === stage)
 
  const getStageColor = () => {
  switch (stage) {
- case 'processing':
+ case 'validating_input':
+ case 'building_prompt':
+ case 'fetching_sources':
  return 'blue'
  case 'generating':
  return 'purple'
- case 'validating':
+ case 'validating_response':
+ case 'validating_content':
+ case 'verifying_sources':
  return 'yellow'
  case 'complete':
  return 'green'
@@ -130,23 +123,35 @@ export function TalkGenerationProgress({ stage, progress }: TalkGenerationProgre
  Creating Your Talk
  </h3>
  <p className="text-sm text-gray-600">
- {getStageText()}
+ {getGenerationStageLabel(stage)}
  </p>
  </div>
 
  <ProgressBar
  progress={progress}
- color={getStageColor() as any}
+ color={getStageColor()}
  showPercentage={true}
  animated={true}
  size="lg"
  />
 
- <div className="mt-4 text-center">
- <p className="text-xs text-gray-500">
- This may take a few moments...
- </p>
- </div>
+ <ul className="mt-4 space-y-1">
+ {TALK_GENERATION_STAGES.filter(s => s.stage !== 'complete').map((s, index) => {
+ const isDone = index < currentIndex
+ const isCurrent = index === currentIndex
+
+ return (
+ <li key={s.stage} className="flex items-center text-xs">
+ <span className={`w-4 mr-2 text-center ${isDone ? 'text-green-600' : isCurrent ? 'text-blue-600' : 'text-gray-300'}`}>
+ {isDone ? '✓' : '•'}
+ </span>
+ <span className={isDone ? 'text-gray-500' : isCurrent ? 'text-gray-900 font-medium' : 'text-gray-400'}>
+ {s.label}
+ </span>
+ </li>
+ )
+ })}
+ </ul>
  </div>
  )
 }
@@ -0,0 +1,146 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import type {
+    TalkQuestionnaire,
+    TalkGenerationEvent,
+    TalkGenerationResult,
+    TalkGenerationStage
+} from '@/lib/types/talks/generation'
+
+const STREAM_ERROR = 'The generation stream was interrupted. Please try again.'
+
+// A cut-off or malformed line yields null rather than throwing inside the reader loop
+const parseEvent = (line: string): TalkGenerationEvent | null => {
+    try {
+        return JSON.parse(line) as TalkGenerationEvent
+    } catch {
+        return null
+    }
+}
+
+interface TalkGenerationStreamState {
+    stage: TalkGenerationStage
+    progress: number
+    streamedText: string
+    generate: (questionnaire: TalkQuestionnaire) => Promise<TalkGenerationResult>
+}
+
+/**
+ * Runs talk generation through /api/generate-talk and exposes the real
+ * pipeline stage, progress and the talk text streamed so far.
+ */
+export function useTalkGenerationStream(): TalkGenerationStreamState {
+    const [stage, setStage] = useState<TalkGenerationStage>('validating_input')
+    const [progress, setProgress] = useState(0)
+    const [streamedText, setStreamedText] = useState('')
+
+    const handleEvent = useCallback((event: TalkGenerationEvent) => {
+        switch (event.type) {
+            case 'stage':
+                setStage(event.stage)
+                setProgress(event.progress)
+                break
+            case 'token':
+                setStreamedText(prev => prev + event.text)
+                setProgress(event.progress)
+                break
+            case 'reset':
+                setStreamedText('')
+                break
+        }
+    }, [])
+
+    const generate = useCallback(async (questionnaire: TalkQuestionnaire): Promise<TalkGenerationResult> => {
+        setStage('validating_input')
+        setProgress(0)
+        setStreamedText('')
+
+        const response = await fetch('/api/generate-talk', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(questionnaire),
+        })
+
+        if (!response.ok || !response.body) {
+            const errorData = await response.json().catch(() => null)
+            return {
+                success: false,
+                error: errorData?.error || `Talk generation failed (${response.status})`
+            }
+        }
+
+        const reader = response.body.getReader()
+        const decoder = new TextDecoder()
+        let buffer = ''
+        let result: TalkGenerationResult | null = null
+
+        try {
+            while (true) {
+                const { done, value } = await reader.read()
+                if (done) break
+
+                buffer += decoder.decode(value, { stream: true })
+                const lines = buffer.split('\n')
+                buffer = lines.pop() || ''
+
+                for (const line of lines) {
+                    if (!line.trim()) continue
+
+                    const event = parseEvent(line)
+                    if (!event) {
+                        await reader.cancel().catch(() => undefined)
+                        setStreamedText('')
+                        return { success: false, error: STREAM_ERROR }
+                    }
+
+                    if (event.type === 'result') {
+                        result = event.result
+                    } else {
+                        handleEvent(event)
+                    }
+                }
+            }
+        } catch (error) {
+            console.error('Talk generation stream error:', error)
+            setStreamedText('')
+            return { success: false, error: STREAM_ERROR }
+        }
+
+        if (buffer.trim()) {
+            const event = parseEvent(buffer)
+            if (event?.type === 'result') {
+                result = event.result
+            }
+        }
+
+        if (!result) {
+            setStreamedText('')
+            return {
+                success: false,
+                error: 'The generation stream ended before the talk was complete. Please try again.'
+            }
+        }
+
+        // Nothing unvalidated stays on screen after a failure
+        if (!result.success) {
+            setStreamedText('')
+        }
+
+        // Dates arrive as ISO strings over JSON
+        if (result.data?.createdAt) {
+            result.data.createdAt = new Date(result.data.createdAt)
+        }
+
+        return result
+    }, [handleEvent])
+
+    return {
+        stage,
+        progress,
+        streamedText,
+        generate
+    }
+}
@@ -0,0 +1,44 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { usePathname } from 'next/navigation'
+import { getUnreadNotificationCount } from '@/lib/actions/notifications'
+
+const POLL_INTERVAL_MS = 60 * 1000
+
+// Dispatched on window after notifications are marked read, so the badge updates right away
+export const NOTIFICATIONS_READ_EVENT = 'notifications:read'
+
+export function useUnreadNotifications(enabled: boolean) {
+    const [unreadCount, setUnreadCount] = useState(0)
+    const pathname = usePathname()
+
+    // Check on every page change, on focus and once a minute while signed in
+    useEffect(() => {
+        if (!enabled) return
+
+        const loadUnreadCount = async () => {
+            try {
+                const result = await getUnreadNotificationCount()
+                if (result.success && result.data !== undefined) {
+                    setUnreadCount(result.data)
+                }
+            } catch (error) {
+                console.error('Failed to load unread notifications:', error)
+            }
+        }
+
+        loadUnreadCount()
+        const interval = setInterval(loadUnreadCount, POLL_INTERVAL_MS)
+        window.addEventListener('focus', loadUnreadCount)
+        window.addEventListener(NOTIFICATIONS_READ_EVENT, loadUnreadCount)
+
+        return () => {
+            clearInterval(interval)
+            window.removeEventListener('focus', loadUnreadCount)
+            window.removeEventListener(NOTIFICATIONS_READ_EVENT, loadUnreadCount)
+        }
+    }, [enabled, pathname])
+
+    return { unreadCount: enabled ? unreadCount : 0 }
+}
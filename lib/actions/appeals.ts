@@ -0,0 +1,173 @@
+'use server'
+
+import { prisma } from '../db'
+import { getSession } from './auth'
+import { requireRole } from '../security/authorization'
+import { ApiResponse } from '../types/api/responses'
+import { AppealDecision, FalsePositiveRegressionCase } from '../types/moderation/appeals'
+
+const MODERATION_ROLE = 'moderator'
+
+const APPEAL_NOTE_MIN_LENGTH = 10
+const APPEAL_NOTE_MAX_LENGTH = 1000
+const REVIEW_NOTE_MAX_LENGTH = 1000
+
+// Matches the window checkRateLimit looks at
+const RATE_LIMIT_WINDOW_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Lets a user dispute one of their own violations. The appeal joins the moderators' review queue.
+ */
+export async function submitViolationAppeal(violationId: string, note: string): Promise<ApiResponse<void>> {
+    try {
+        const session = await getSession()
+        if (!session) {
+            return { success: false, error: 'Not authenticated' }
+        }
+
+        const trimmedNote = note?.trim() || ''
+        if (trimmedNote.length < APPEAL_NOTE_MIN_LENGTH) {
+            return { success: false, error: `Please explain why in at least ${APPEAL_NOTE_MIN_LENGTH} characters` }
+        }
+        if (trimmedNote.length > APPEAL_NOTE_MAX_LENGTH) {
+            return { success: false, error: `Please keep your explanation under ${APPEAL_NOTE_MAX_LENGTH} characters` }
+        }
+
+        // Only the user's own, not-yet-appealed violations can be appealed
+        const result = await prisma.securityViolation.updateMany({
+            where: {
+                id: violationId,
+                userId: session.userId,
+                appealStatus: null,
+                dismissedAt: null
+            },
+            data: {
+                appealStatus: 'pending',
+                appealNote: trimmedNote,
+                appealedAt: new Date()
+            }
+        })
+
+        if (result.count === 0) {
+            return { success: false, error: 'This flag can no longer be appealed' }
+        }
+
+        return { success: true }
+    } catch (error) {
+        console.error('Error submitting violation appeal:', error)
+        return { success: false, error: 'Failed to submit appeal' }
+    }
+}
+
+/**
+ * Records a moderator's decision on an appeal. Overturning it dismisses the
+ * violation and lifts the user's current rate-limit block.
+ */
+export async function resolveAppeal(
+    violationId: string,
+    decision: AppealDecision,
+    reviewNote?: string
+): Promise<ApiResponse<void>> {
+    try {
+        const authorization = await requireRole(MODERATION_ROLE)
+        if (!authorization.authorized) {
+            return { success: false, error: authorization.error }
+        }
+
+        if (decision !== 'upheld' && decision !== 'overturned') {
+            return { success: false, error: 'Invalid decision' }
+        }
+
+        const trimmedNote = reviewNote?.trim() || null
+        if (trimmedNote && trimmedNote.length > REVIEW_NOTE_MAX_LENGTH) {
+            return { success: false, error: `Review notes must be under ${REVIEW_NOTE_MAX_LENGTH} characters` }
+        }
+
+        const violation = await prisma.securityViolation.findUnique({
+            where: { id: violationId },
+            select: { userId: true, appealStatus: true, dismissedAt: true }
+        })
+
+        if (!violation || violation.appealStatus !== 'pending') {
+            return { success: false, error: 'Appeal not found or already resolved' }
+        }
+
+        const now = new Date()
+
+        await prisma.$transaction([
+            prisma.securityViolation.update({
+                where: { id: violationId },
+                data: {
+                    appealStatus: decision,
+                    appealReviewedAt: now,
+                    appealReviewedById: authorization.userId,
+                    appealReviewNote: trimmedNote,
+                    ...(decision === 'overturned' && !violation.dismissedAt
+                        ? { dismissedAt: now, dismissedById: authorization.userId }
+                        : {})
+                }
+            }),
+            ...(decision === 'overturned' && violation.userId
+                ? [prisma.securityViolation.updateMany({
+                    where: {
+                        userId: violation.userId,
+                        createdAt: { gte: new Date(now.getTime() - RATE_LIMIT_WINDOW_MS) },
+                        rateLimitClearedAt: null
+                    },
+                    data: { rateLimitClearedAt: now }
+                })]
+                : [])
+        ])
+
+        return { success: true }
+    } catch (error) {
+        console.error('Error resolving appeal:', error)
+        return { success: false, error: 'Failed to resolve appeal' }
+    }
+}
+
+/**
+ * Exports confirmed false positives as regression cases for the content filter
+ */
+export async function exportFalsePositiveCases(): Promise<ApiResponse<FalsePositiveRegressionCase[]>> {
+    try {
+        const authorization = await requireRole(MODERATION_ROLE)
+        if (!authorization.authorized) {
+            return { success: false, error: authorization.error }
+        }
+
+        const violations = await prisma.securityViolation.findMany({
+            where: { appealStatus: 'overturned', userInput: { not: null } },
+            orderBy: { appealReviewedAt: 'asc' },
+            select: {
+                id: true,
+                type: true,
+                severity: true,
+                detectedPattern: true,
+                userInput: true,
+                ruleSetVersion: true,
+                appealNote: true,
+                appealReviewNote: true,
+                appealReviewedAt: true
+            }
+        })
+
+        return {
+            success: true,
+            data: violations.map(violation => ({
+                violationId: violation.id,
+                type: violation.type,
+                severity: violation.severity,
+                detectedPattern: violation.detectedPattern,
+                input: violation.userInput || '',
+                ruleSetVersion: violation.ruleSetVersion,
+                appealNote: violation.appealNote,
+                reviewNote: violation.appealReviewNote,
+                reviewedAt: violation.appealReviewedAt
+            }))
+        }
+    } catch (error) {
+        console.error('Error exporting false positives:', error)
+        return { success: false, error: 'Failed to export false positives' }
+    }
+}
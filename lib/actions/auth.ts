@@ -3,12 +3,17 @@
 import { z } from 'zod'
 import bcrypt from 'bcryptjs'
 import { redirect } from 'next/navigation'
-import { cookies } from 'next/headers'
+import { cookies, headers } from 'next/headers'
 import { prisma } from '../db'
 import { sanitizeInput } from '../security/inputSanitization'
+import { toUserRole } from '../security/roles'
+import { SESSION_COOKIE_NAME, SESSION_TTL_MS, signSessionToken, verifySessionToken } from '../security/sessionToken'
 import { ApiResponse } from '../types/api/responses'
 import { BaseUser } from '../types/auth/user'
 
+// How often a session's lastUsedAt is refreshed
+const SESSION_ACTIVITY_INTERVAL_MS = 60 * 60 * 1000
+
 // Validation schemas
 const registerSchema = z.object({
     email: z.email('Please enter a valid email address'),
@@ -183,6 +188,13 @@ export async function loginUser(formData: FormData): Promise<ApiResponse<BaseUse
             }
         }
 
+        if (user.bannedAt) {
+            return {
+                success: false,
+                error: 'This account has been suspended. Please contact support if you believe this is a mistake.'
+            }
+        }
+
         // Create session
         await createSession(user.id)
 
@@ -213,42 +225,88 @@ export async function loginUser(formData: FormData): Promise<ApiResponse<BaseUse
 
 export async function logoutUser(): Promise<void> {
     const cookieStore = await cookies()
-    cookieStore.delete('session')
+    const token = await verifySessionToken(cookieStore.get(SESSION_COOKIE_NAME)?.value)
+
+    // Revoke server-side so a copied cookie stops working too
+    if (token) {
+        try {
+            await prisma.session.updateMany({
+                where: { id: token.sessionId, revokedAt: null },
+                data: { revokedAt: new Date() }
+            })
+        } catch (error) {
+            console.error('Logout session revoke error:', error)
+        }
+    }
+
+    cookieStore.delete(SESSION_COOKIE_NAME)
     redirect('/')
 }
 
 // Session management
 async function createSession(userId: string): Promise<void> {
     const cookieStore = await cookies()
+    const headersList = await headers()
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS)
+
+    // Clear out this user's dead sessions before adding the new device
+    await prisma.session.deleteMany({
+        where: {
+            userId,
+            OR: [
+                { expiresAt: { lt: new Date() } },
+                { revokedAt: { not: null } }
+            ]
+        }
+    })
 
-    // Simple session token (in production, use JWT or more secure method)
-    const sessionToken = Buffer.from(JSON.stringify({ userId, expires: Date.now() + 7 * 24 * 60 * 60 * 1000 })).toString('base64')
+    const session = await prisma.session.create({
+        data: {
+            userId,
+            userAgent: headersList.get('user-agent')?.slice(0, 500) || null,
+            ipAddress: headersList.get('x-forwarded-for')?.split(',')[0].trim() || headersList.get('x-real-ip') || null,
+            expiresAt
+        }
+    })
+
+    const sessionToken = await signSessionToken({ sessionId: session.id, expiresAt })
 
-    cookieStore.set('session', sessionToken, {
+    cookieStore.set(SESSION_COOKIE_NAME, sessionToken, {
         httpOnly: true,
         secure: process.env.NODE_ENV === 'production',
         sameSite: 'lax',
-        maxAge: 7 * 24 * 60 * 60, // 7 days
+        maxAge: SESSION_TTL_MS / 1000, // 7 days
     })
 }
 
-export async function getSession(): Promise<{ userId: string } | null> {
+export async function getSession(): Promise<{ userId: string; sessionId: string } | null> {
     try {
         const cookieStore = await cookies()
-        const sessionCookie = cookieStore.get('session')
+        const token = await verifySessionToken(cookieStore.get(SESSION_COOKIE_NAME)?.value)
 
-        if (!sessionCookie) {
+        if (!token) {
             return null
         }
 
-        const sessionData = JSON.parse(Buffer.from(sessionCookie.value, 'base64').toString())
+        const session = await prisma.session.findUnique({
+            where: { id: token.sessionId },
+            select: { userId: true, expiresAt: true, revokedAt: true, lastUsedAt: true }
+        })
 
-        // Check if session is expired
-        if (Date.now() > sessionData.expires) {
+        // Check the session hasn't been revoked or expired server-side
+        if (!session || session.revokedAt || session.expiresAt <= new Date()) {
             return null
         }
 
-        return { userId: sessionData.userId }
+        // Track device activity without writing on every request
+        if (Date.now() - session.lastUsedAt.getTime() > SESSION_ACTIVITY_INTERVAL_MS) {
+            await prisma.session.update({
+                where: { id: token.sessionId },
+                data: { lastUsedAt: new Date() }
+            })
+        }
+
+        return { userId: session.userId, sessionId: token.sessionId }
     } catch {
         return null
     }
@@ -271,15 +329,17 @@ export async function getCurrentUser(): Promise<BaseUser | null> {
         }
 
         // If not in cache, fetch from database
-        const user = await prisma.user.findUnique({
+        const dbUser = await prisma.user.findUnique({
             where: { id: session.userId },
             select: {
                 id: true,
                 email: true,
                 firstName: true,
                 lastName: true,
+                role: true,
             }
         })
+        const user = dbUser ? { ...dbUser, role: toUserRole(dbUser.role) } : null
 
         // Cache the user data for 5 minutes
         if (user) {
@@ -447,13 +507,23 @@ export async function changePassword(formData: FormData): Promise<ApiResponse<vo
         // Hash new password
         const hashedNewPassword = await bcrypt.hash(validatedData.newPassword, 12)
 
-        // Update password
-        await prisma.user.update({
-            where: { id: session.userId },
-            data: {
-                password: hashedNewPassword,
-            }
-        })
+        // Update password and sign out the user's other devices
+        await prisma.$transaction([
+            prisma.user.update({
+                where: { id: session.userId },
+                data: {
+                    password: hashedNewPassword,
+                }
+            }),
+            prisma.session.updateMany({
+                where: {
+                    userId: session.userId,
+                    revokedAt: null,
+                    id: { not: session.sessionId }
+                },
+                data: { revokedAt: new Date() }
+            })
+        ])
 
         return {
             success: true
@@ -0,0 +1,388 @@
+'use server'
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '../db'
+import { getSession } from './auth'
+import { getSavedTalkById, updateSavedTalk } from './talks'
+import { notifyUsers } from '../services/notificationService'
+import { ApiResponse } from '../types/api/responses'
+import { GeneratedTalk } from '../types/talks/generation'
+import { NewTalkCommentThread, SuggestionStatus, TalkComment, TalkCommentThread } from '../types/talks/comments'
+import { canCommentOnTalk, canEditTalk } from '../utils/talkAccess'
+import { joinTalkParagraphs, locatePassage, splitTalkParagraphs } from '../utils/talkParagraphs'
+
+const COMMENT_MAX_LENGTH = 2000
+const SUGGESTION_MAX_LENGTH = 5000
+
+const COMMENT_USER_SELECT = {
+    select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true
+    }
+}
+
+const COMMENT_THREAD_INCLUDE = {
+    author: COMMENT_USER_SELECT,
+    resolvedBy: COMMENT_USER_SELECT,
+    replies: {
+        include: { author: COMMENT_USER_SELECT },
+        orderBy: { createdAt: 'asc' as const }
+    }
+}
+
+type CommentThreadRecord = Prisma.TalkCommentGetPayload<{ include: typeof COMMENT_THREAD_INCLUDE }>
+
+// What's needed to act on a thread without loading its comments
+const COMMENT_THREAD_ANCHOR_SELECT = {
+    talkId: true,
+    startParagraph: true,
+    quotedText: true,
+    suggestion: true,
+    suggestionStatus: true
+}
+
+type CommentThreadAnchor = Prisma.TalkCommentGetPayload<{ select: typeof COMMENT_THREAD_ANCHOR_SELECT }>
+
+/**
+ * Maps a thread onto the talk as it reads now, following its paragraphs if they moved
+ */
+function toCommentThread(record: CommentThreadRecord, paragraphs: string[]): TalkCommentThread {
+    const quoted = splitTalkParagraphs(record.quotedText || '')
+    const storedStart = record.startParagraph ?? 0
+    const start = locatePassage(paragraphs, quoted, storedStart)
+
+    return {
+        id: record.id,
+        talkId: record.talkId,
+        author: record.author,
+        body: record.body,
+        createdAt: record.createdAt,
+        startParagraph: start ?? storedStart,
+        endParagraph: start !== null ? start + quoted.length - 1 : record.endParagraph ?? storedStart,
+        quotedText: record.quotedText || '',
+        isOutdated: start === null,
+        suggestion: record.suggestion || undefined,
+        suggestionStatus: (record.suggestionStatus as SuggestionStatus | null) || undefined,
+        resolved: record.resolved,
+        resolvedBy: record.resolvedBy || undefined,
+        resolvedAt: record.resolvedAt || undefined,
+        replies: record.replies.map(reply => ({
+            id: reply.id,
+            author: reply.author,
+            body: reply.body,
+            createdAt: reply.createdAt
+        }))
+    }
+}
+
+/**
+ * The talk's author, worked out from the current user's access to it
+ */
+function getTalkAuthorId(talk: GeneratedTalk, userId: string): string {
+    return talk.access && talk.access.level !== 'owner' ? talk.access.sharedBy.id : userId
+}
+
+/**
+ * Loads the talk a thread belongs to, if the current user can reach it
+ */
+async function getThreadTalk(threadId: string): Promise<ApiResponse<{ talk: GeneratedTalk; thread: CommentThreadAnchor }>> {
+    const thread = await prisma.talkComment.findFirst({
+        where: { id: threadId, parentId: null },
+        select: COMMENT_THREAD_ANCHOR_SELECT
+    })
+
+    if (!thread) {
+        return { success: false, error: 'Comment not found' }
+    }
+
+    const talkResult = await getSavedTalkById(thread.talkId)
+    if (!talkResult.success || !talkResult.data) {
+        return { success: false, error: 'Comment not found' }
+    }
+
+    return { success: true, data: { talk: talkResult.data, thread } }
+}
+
+/**
+ * Gets the comment threads on a talk, in the order their paragraphs appear
+ */
+export async function getTalkComments(talkId: string): Promise<ApiResponse<TalkCommentThread[]>> {
+    try {
+        const talkResult = await getSavedTalkById(talkId)
+        if (!talkResult.success || !talkResult.data) {
+            return { success: false, error: talkResult.error || 'Talk not found' }
+        }
+
+        const records = await prisma.talkComment.findMany({
+            where: { talkId, parentId: null },
+            include: COMMENT_THREAD_INCLUDE,
+            orderBy: { createdAt: 'asc' }
+        })
+
+        const paragraphs = splitTalkParagraphs(talkResult.data.content)
+        const threads = records
+            .map(record => toCommentThread(record, paragraphs))
+            .sort((a, b) => a.startParagraph - b.startParagraph)
+
+        return { success: true, data: threads }
+    } catch (error) {
+        console.error('Error loading talk comments:', error)
+        return { success: false, error: 'Failed to load comments' }
+    }
+}
+
+/**
+ * Starts a comment thread on a range of paragraphs, optionally suggesting replacement text
+ */
+export async function startTalkCommentThread(
+    talkId: string,
+    input: NewTalkCommentThread
+): Promise<ApiResponse<TalkCommentThread>> {
+    try {
+        const session = await getSession()
+        if (!session) {
+            return { success: false, error: 'Not authenticated' }
+        }
+
+        const talkResult = await getSavedTalkById(talkId)
+        if (!talkResult.success || !talkResult.data) {
+            return { success: false, error: talkResult.error || 'Talk not found' }
+        }
+        if (!canCommentOnTalk(talkResult.data.access)) {
+            return { success: false, error: 'You do not have permission to comment on this talk' }
+        }
+
+        const paragraphs = splitTalkParagraphs(talkResult.data.content)
+        const { startParagraph, endParagraph } = input
+        if (
+            !Number.isInteger(startParagraph) || !Number.isInteger(endParagraph) ||
+            startParagraph < 0 || endParagraph < startParagraph || endParagraph >= paragraphs.length
+        ) {
+            return { success: false, error: 'Please select the paragraphs to comment on' }
+        }
+
+        const body = input.body?.trim() || ''
+        if (body.length === 0) {
+            return { success: false, error: 'Please enter a comment' }
+        }
+        if (body.length > COMMENT_MAX_LENGTH) {
+            return { success: false, error: `Please keep comments under ${COMMENT_MAX_LENGTH} characters` }
+        }
+
+        const quotedText = joinTalkParagraphs(paragraphs.slice(startParagraph, endParagraph + 1))
+        const suggestion = input.suggestion !== undefined
+            ? joinTalkParagraphs(splitTalkParagraphs(input.suggestion))
+            : null
+        if (suggestion !== null) {
+            if (suggestion.length === 0 || suggestion === quotedText) {
+                return { success: false, error: 'The suggested edit must change the selected text' }
+            }
+            if (suggestion.length > SUGGESTION_MAX_LENGTH) {
+                return { success: false, error: `Please keep suggested edits under ${SUGGESTION_MAX_LENGTH} characters` }
+            }
+        }
+
+        const record = await prisma.talkComment.create({
+            data: {
+                talkId,
+                authorId: session.userId,
+                body,
+                startParagraph,
+                endParagraph,
+                quotedText,
+                suggestion,
+                suggestionStatus: suggestion !== null ? 'pending' : null
+            },
+            include: COMMENT_THREAD_INCLUDE
+        })
+
+        await notifyUsers([getTalkAuthorId(talkResult.data, session.userId)], {
+            type: 'comment_added',
+            title: `${record.author.firstName} ${record.author.lastName} ${suggestion !== null ? 'suggested an edit to' : 'commented on'} "${talkResult.data.title}"`,
+            body,
+            link: `/talk/${talkId}`,
+            actorId: session.userId
+        })
+
+        return { success: true, data: toCommentThread(record, paragraphs) }
+    } catch (error) {
+        console.error('Error starting comment thread:', error)
+        return { success: false, error: 'Failed to add comment' }
+    }
+}
+
+/**
+ * Adds a reply to a comment thread
+ */
+export async function replyToTalkComment(threadId: string, body: string): Promise<ApiResponse<TalkComment>> {
+    try {
+        const session = await getSession()
+        if (!session) {
+            return { success: false, error: 'Not authenticated' }
+        }
+
+        const trimmedBody = body?.trim() || ''
+        if (trimmedBody.length === 0) {
+            return { success: false, error: 'Please enter a reply' }
+        }
+        if (trimmedBody.length > COMMENT_MAX_LENGTH) {
+            return { success: false, error: `Please keep comments under ${COMMENT_MAX_LENGTH} characters` }
+        }
+
+        const threadResult = await getThreadTalk(threadId)
+        if (!threadResult.success || !threadResult.data) {
+            return { success: false, error: threadResult.error }
+        }
+        if (!canCommentOnTalk(threadResult.data.talk.access)) {
+            return { success: false, error: 'You do not have permission to comment on this talk' }
+        }
+
+        const reply = await prisma.talkComment.create({
+            data: {
+                talkId: threadResult.data.thread.talkId,
+                authorId: session.userId,
+                parentId: threadId,
+                body: trimmedBody
+            },
+            include: { author: COMMENT_USER_SELECT }
+        })
+
+        // Everyone in the discussion who can still see the talk hears about replies, along with its author
+        const { talk, thread } = threadResult.data
+        const authorId = getTalkAuthorId(talk, session.userId)
+        const participants = await prisma.talkComment.findMany({
+            where: {
+                OR: [{ id: threadId }, { parentId: threadId }],
+                author: {
+                    OR: [
+                        { id: authorId },
+                        { receivedShares: { some: { talkId: thread.talkId, status: 'accepted' } } }
+                    ]
+                }
+            },
+            select: { authorId: true }
+        })
+        await notifyUsers([authorId, ...participants.map(comment => comment.authorId)], {
+            type: 'comment_added',
+            title: `${reply.author.firstName} ${reply.author.lastName} replied to a comment on "${talk.title}"`,
+            body: trimmedBody,
+            link: `/talk/${thread.talkId}`,
+            actorId: session.userId
+        })
+
+        return {
+            success: true,
+            data: {
+                id: reply.id,
+                author: reply.author,
+                body: reply.body,
+                createdAt: reply.createdAt
+            }
+        }
+    } catch (error) {
+        console.error('Error replying to comment:', error)
+        return { success: false, error: 'Failed to add reply' }
+    }
+}
+
+/**
+ * Resolves a comment thread, or reopens a resolved one
+ */
+export async function setTalkCommentResolved(threadId: string, resolved: boolean): Promise<ApiResponse<void>> {
+    try {
+        const session = await getSession()
+        if (!session) {
+            return { success: false, error: 'Not authenticated' }
+        }
+
+        const threadResult = await getThreadTalk(threadId)
+        if (!threadResult.success || !threadResult.data) {
+            return { success: false, error: threadResult.error }
+        }
+        if (!canCommentOnTalk(threadResult.data.talk.access)) {
+            return { success: false, error: 'You do not have permission to resolve comments on this talk' }
+        }
+
+        await prisma.talkComment.update({
+            where: { id: threadId },
+            data: resolved
+                ? { resolved: true, resolvedById: session.userId, resolvedAt: new Date() }
+                : { resolved: false, resolvedById: null, resolvedAt: null }
+        })
+
+        return { success: true }
+    } catch (error) {
+        console.error('Error resolving comment:', error)
+        return { success: false, error: 'Failed to update comment' }
+    }
+}
+
+/**
+ * Accepts a suggested edit into the talk, or rejects it. Either way the thread is resolved.
+ * A suggestion can only be accepted while the paragraphs it replaces are unchanged.
+ */
+export async function respondToTalkSuggestion(
+    threadId: string,
+    response: 'accepted' | 'rejected'
+): Promise<ApiResponse<void>> {
+    try {
+        const session = await getSession()
+        if (!session) {
+            return { success: false, error: 'Not authenticated' }
+        }
+
+        if (response !== 'accepted' && response !== 'rejected') {
+            return { success: false, error: 'Invalid response' }
+        }
+
+        const threadResult = await getThreadTalk(threadId)
+        if (!threadResult.success || !threadResult.data) {
+            return { success: false, error: threadResult.error }
+        }
+
+        const { talk, thread } = threadResult.data
+        if (!canEditTalk(talk.access)) {
+            return { success: false, error: 'Only people who can edit this talk can accept or reject suggestions' }
+        }
+        if (thread.suggestionStatus !== 'pending') {
+            return { success: false, error: 'This suggestion has already been answered' }
+        }
+
+        if (response === 'accepted') {
+            const paragraphs = splitTalkParagraphs(talk.content)
+            const quoted = splitTalkParagraphs(thread.quotedText || '')
+            const start = locatePassage(paragraphs, quoted, thread.startParagraph ?? 0)
+            if (start === null) {
+                return { success: false, error: 'The text this suggestion replaces has changed since it was made' }
+            }
+
+            const content = joinTalkParagraphs([
+                ...paragraphs.slice(0, start),
+                ...splitTalkParagraphs(thread.suggestion || ''),
+                ...paragraphs.slice(start + quoted.length)
+            ])
+
+            const updateResult = await updateSavedTalk(thread.talkId, { content })
+            if (!updateResult.success) {
+                return { success: false, error: updateResult.error }
+            }
+        }
+
+        await prisma.talkComment.update({
+            where: { id: threadId },
+            data: {
+                suggestionStatus: response,
+                resolved: true,
+                resolvedById: session.userId,
+                resolvedAt: new Date()
+            }
+        })
+
+        return { success: true }
+    } catch (error) {
+        console.error('Error responding to suggestion:', error)
+        return { success: false, error: 'Failed to update suggestion' }
+    }
+}
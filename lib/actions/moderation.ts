@@ -0,0 +1,274 @@
+'use server'
+
+import { prisma } from '../db'
+import { requireRole } from '../security/authorization'
+import { checkRateLimit, SecurityViolationLog } from '../security/violationLogger'
+import {
+    getAppealedViolations,
+    getRecentViolations,
+    getTopViolatingUsers,
+    getUserViolationHistory,
+    getViolationById,
+    getViolationStatistics,
+    getViolationTimeline
+} from '../security/violationQueries'
+import { ApiResponse } from '../types/api/responses'
+import { ModeratedUserHistory, ModerationOverview, ViolationTimeRange } from '../types/moderation/dashboard'
+
+const TIME_RANGES: ViolationTimeRange[] = ['hour', 'day', 'week', 'month']
+
+// Dashboard reads and routine actions are open to moderators; bans need an admin
+const MODERATION_ROLE = 'moderator'
+const BAN_ROLE = 'admin'
+
+export async function getModerationOverview(timeRange: ViolationTimeRange = 'day'): Promise<ApiResponse<ModerationOverview>> {
+    try {
+        const authorization = await requireRole(MODERATION_ROLE)
+        if (!authorization.authorized) {
+            return { success: false, error: authorization.error }
+        }
+
+        if (!TIME_RANGES.includes(timeRange)) {
+            return { success: false, error: 'Invalid time range' }
+        }
+
+        const [statisticsResult, timelineResult, usersResult, recentViolations, pendingAppeals] = await Promise.all([
+            getViolationStatistics(timeRange),
+            getViolationTimeline(timeRange),
+            getTopViolatingUsers(timeRange),
+            getRecentViolations(25),
+            getAppealedViolations('pending')
+        ])
+
+        if (!statisticsResult.statistics || !timelineResult.timeline || !usersResult.users) {
+            return {
+                success: false,
+                error: statisticsResult.error || timelineResult.error || usersResult.error || 'Failed to load moderation data'
+            }
+        }
+
+        return {
+            success: true,
+            data: {
+                timeRange,
+                ...statisticsResult.statistics,
+                timeline: timelineResult.timeline,
+                topUsers: usersResult.users,
+                recentViolations,
+                pendingAppeals
+            }
+        }
+    } catch (error) {
+        console.error('Error loading moderation overview:', error)
+        return { success: false, error: 'Failed to load moderation data' }
+    }
+}
+
+export async function getModeratedUserHistory(userId: string): Promise<ApiResponse<ModeratedUserHistory>> {
+    try {
+        const authorization = await requireRole(MODERATION_ROLE)
+        if (!authorization.authorized) {
+            return { success: false, error: authorization.error }
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: {
+                id: true,
+                email: true,
+                firstName: true,
+                lastName: true,
+                role: true,
+                bannedAt: true,
+                banReason: true,
+                createdAt: true
+            }
+        })
+
+        if (!user) {
+            return { success: false, error: 'User not found' }
+        }
+
+        const [historyResult, rateLimit] = await Promise.all([
+            getUserViolationHistory(userId, 100),
+            checkRateLimit(userId)
+        ])
+
+        if (!historyResult.violations) {
+            return { success: false, error: historyResult.error || 'Failed to load violation history' }
+        }
+
+        return {
+            success: true,
+            data: {
+                user,
+                violations: historyResult.violations,
+                isRateLimited: rateLimit.isBlocked,
+                nextAllowedTime: rateLimit.nextAllowedTime
+            }
+        }
+    } catch (error) {
+        console.error('Error loading user violation history:', error)
+        return { success: false, error: 'Failed to load violation history' }
+    }
+}
+
+export async function getViolationDetail(violationId: string): Promise<ApiResponse<SecurityViolationLog>> {
+    try {
+        const authorization = await requireRole(MODERATION_ROLE)
+        if (!authorization.authorized) {
+            return { success: false, error: authorization.error }
+        }
+
+        const violation = await getViolationById(violationId)
+        if (!violation) {
+            return { success: false, error: 'Violation not found' }
+        }
+
+        return { success: true, data: violation }
+    } catch (error) {
+        console.error('Error loading violation:', error)
+        return { success: false, error: 'Failed to load violation' }
+    }
+}
+
+/**
+ * Marks a violation as a false positive so it no longer counts toward rate limits or statistics
+ */
+export async function dismissViolation(violationId: string): Promise<ApiResponse<void>> {
+    try {
+        const authorization = await requireRole(MODERATION_ROLE)
+        if (!authorization.authorized) {
+            return { success: false, error: authorization.error }
+        }
+
+        const result = await prisma.securityViolation.updateMany({
+            where: { id: violationId, dismissedAt: null },
+            data: {
+                dismissedAt: new Date(),
+                dismissedById: authorization.userId
+            }
+        })
+
+        if (result.count === 0) {
+            return { success: false, error: 'Violation not found or already dismissed' }
+        }
+
+        return { success: true }
+    } catch (error) {
+        console.error('Error dismissing violation:', error)
+        return { success: false, error: 'Failed to dismiss violation' }
+    }
+}
+
+/**
+ * Lifts a rate-limit block by excluding the recent violations behind it.
+ * Pass a userId for signed-in users or an ipAddress for anonymous traffic.
+ */
+export async function clearRateLimitBlock(target: { userId?: string; ipAddress?: string }): Promise<ApiResponse<{ clearedCount: number }>> {
+    try {
+        const authorization = await requireRole(MODERATION_ROLE)
+        if (!authorization.authorized) {
+            return { success: false, error: authorization.error }
+        }
+
+        if (!target.userId && !target.ipAddress) {
+            return { success: false, error: 'A user or IP address is required' }
+        }
+
+        // checkRateLimit only looks at the last 24 hours
+        const result = await prisma.securityViolation.updateMany({
+            where: {
+                ...(target.userId ? { userId: target.userId } : { ipAddress: target.ipAddress }),
+                createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+                rateLimitClearedAt: null
+            },
+            data: { rateLimitClearedAt: new Date() }
+        })
+
+        return { success: true, data: { clearedCount: result.count } }
+    } catch (error) {
+        console.error('Error clearing rate limit block:', error)
+        return { success: false, error: 'Failed to clear rate limit block' }
+    }
+}
+
+/**
+ * Bans an account and signs it out everywhere
+ */
+export async function banUser(userId: string, reason: string): Promise<ApiResponse<void>> {
+    try {
+        const authorization = await requireRole(BAN_ROLE)
+        if (!authorization.authorized) {
+            return { success: false, error: authorization.error }
+        }
+
+        if (userId === authorization.userId) {
+            return { success: false, error: 'You cannot ban your own account' }
+        }
+
+        const trimmedReason = reason.trim().slice(0, 500)
+        if (!trimmedReason) {
+            return { success: false, error: 'A reason is required to ban an account' }
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { role: true, bannedAt: true }
+        })
+
+        if (!user) {
+            return { success: false, error: 'User not found' }
+        }
+
+        if (user.role === 'admin') {
+            return { success: false, error: 'Admin accounts cannot be banned' }
+        }
+
+        if (user.bannedAt) {
+            return { success: false, error: 'This account is already banned' }
+        }
+
+        await prisma.$transaction([
+            prisma.user.update({
+                where: { id: userId },
+                data: { bannedAt: new Date(), banReason: trimmedReason }
+            }),
+            prisma.session.updateMany({
+                where: { userId, revokedAt: null },
+                data: { revokedAt: new Date() }
+            })
+        ])
+
+        const { invalidateUserCache } = await import('../cache/queryCache')
+        await invalidateUserCache(userId)
+
+        return { success: true }
+    } catch (error) {
+        console.error('Error banning user:', error)
+        return { success: false, error: 'Failed to ban user' }
+    }
+}
+
+export async function unbanUser(userId: string): Promise<ApiResponse<void>> {
+    try {
+        const authorization = await requireRole(BAN_ROLE)
+        if (!authorization.authorized) {
+            return { success: false, error: authorization.error }
+        }
+
+        const result = await prisma.user.updateMany({
+            where: { id: userId, bannedAt: { not: null } },
+            data: { bannedAt: null, banReason: null }
+        })
+
+        if (result.count === 0) {
+            return { success: false, error: 'User not found or not banned' }
+        }
+
+        return { success: true }
+    } catch (error) {
+        console.error('Error unbanning user:', error)
+        return { success: false, error: 'Failed to unban user' }
+    }
+}
@@ -0,0 +1,149 @@
+'use server'
+
+import { prisma } from '../db'
+import { getSession } from './auth'
+import { ApiResponse } from '../types/api/responses'
+import { NotificationType, UserNotification } from '../types/notifications'
+import { isNotificationType } from '../utils/notificationTypes'
+
+const NOTIFICATIONS_PAGE_SIZE = 50
+
+/**
+ * Gets the current user's most recent notifications, newest first
+ */
+export async function getNotifications(): Promise<ApiResponse<UserNotification[]>> {
+    try {
+        const session = await getSession()
+        if (!session) {
+            return { success: false, error: 'Not authenticated' }
+        }
+
+        const notifications = await prisma.notification.findMany({
+            where: { userId: session.userId },
+            orderBy: { createdAt: 'desc' },
+            take: NOTIFICATIONS_PAGE_SIZE,
+            include: {
+                actor: {
+                    select: {
+                        id: true,
+                        firstName: true,
+                        lastName: true,
+                        email: true
+                    }
+                }
+            }
+        })
+
+        return {
+            success: true,
+            data: notifications.map(notification => ({
+                id: notification.id,
+                type: notification.type as NotificationType,
+                title: notification.title,
+                body: notification.body || undefined,
+                link: notification.link || undefined,
+                actor: notification.actor || undefined,
+                read: notification.readAt !== null,
+                createdAt: notification.createdAt
+            }))
+        }
+    } catch (error) {
+        console.error('Error loading notifications:', error)
+        return { success: false, error: 'Failed to load notifications' }
+    }
+}
+
+/**
+ * Counts the current user's unread notifications, for the navigation badge
+ */
+export async function getUnreadNotificationCount(): Promise<ApiResponse<number>> {
+    try {
+        const session = await getSession()
+        if (!session) {
+            return { success: false, error: 'Not authenticated' }
+        }
+
+        const count = await prisma.notification.count({
+            where: { userId: session.userId, readAt: null }
+        })
+
+        return { success: true, data: count }
+    } catch (error) {
+        console.error('Error counting notifications:', error)
+        return { success: false, error: 'Failed to count notifications' }
+    }
+}
+
+/**
+ * Marks the given notifications read, or all of them when no ids are given
+ */
+export async function markNotificationsRead(notificationIds?: string[]): Promise<ApiResponse<void>> {
+    try {
+        const session = await getSession()
+        if (!session) {
+            return { success: false, error: 'Not authenticated' }
+        }
+
+        await prisma.notification.updateMany({
+            where: {
+                userId: session.userId,
+                readAt: null,
+                ...(notificationIds ? { id: { in: notificationIds } } : {})
+            },
+            data: { readAt: new Date() }
+        })
+
+        return { success: true }
+    } catch (error) {
+        console.error('Error marking notifications read:', error)
+        return { success: false, error: 'Failed to update notifications' }
+    }
+}
+
+/**
+ * Gets the notification types the current user also receives by email
+ */
+export async function getNotificationEmailTypes(): Promise<ApiResponse<NotificationType[]>> {
+    try {
+        const session = await getSession()
+        if (!session) {
+            return { success: false, error: 'Not authenticated' }
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: session.userId },
+            select: { notificationEmailTypes: true }
+        })
+
+        return { success: true, data: (user?.notificationEmailTypes || []).filter(isNotificationType) }
+    } catch (error) {
+        console.error('Error loading notification preferences:', error)
+        return { success: false, error: 'Failed to load notification preferences' }
+    }
+}
+
+/**
+ * Sets which notification types the current user also receives by email
+ */
+export async function updateNotificationEmailTypes(types: NotificationType[]): Promise<ApiResponse<void>> {
+    try {
+        const session = await getSession()
+        if (!session) {
+            return { success: false, error: 'Not authenticated' }
+        }
+
+        if (!Array.isArray(types) || !types.every(isNotificationType)) {
+            return { success: false, error: 'Invalid notification type' }
+        }
+
+        await prisma.user.update({
+            where: { id: session.userId },
+            data: { notificationEmailTypes: [...new Set(types)] }
+        })
+
+        return { success: true }
+    } catch (error) {
+        console.error('Error updating notification preferences:', error)
+        return { success: false, error: 'Failed to update notification preferences' }
+    }
+}
@@ -0,0 +1,341 @@
+'use server'
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '../db'
+import { requireRole } from '../security/authorization'
+import { DEFAULT_RULE_SET, DEFAULT_RULE_SET_VERSION } from '../security/defaultRuleSet'
+import { ContentField, ModerationEngine, ruleSetDefinitionSchema } from '../security/moderationEngine'
+import { invalidateModerationEngine } from '../security/ruleSetStore'
+import type { SecurityViolation } from '../security/aiContentFilter'
+import { ApiResponse } from '../types/api/responses'
+import {
+    DryRunOutcome,
+    DryRunViolationResult,
+    ModerationRuleSetDetail,
+    ModerationRuleSetSummary,
+    RuleSetDryRunResult,
+    RuleSetStatus
+} from '../types/moderation/ruleSets'
+
+// Anyone in the moderation area can review and dry-run rule sets; changing them needs an admin
+const MODERATION_ROLE = 'moderator'
+const RULE_SET_ADMIN_ROLE = 'admin'
+
+const DRY_RUN_DEFAULT_LIMIT = 500
+const DRY_RUN_MAX_LIMIT = 2000
+
+// Violation types a rule set produces from user input. Policy violations come from
+// the content scanner and aren't affected by rule set changes.
+const DRY_RUN_TYPES: SecurityViolation['type'][] = ['manipulation_attempt', 'inappropriate_content', 'spam']
+
+const SEVERITY_ORDER: Record<string, number> = { low: 1, medium: 2, high: 3, critical: 4 }
+
+// Rewrite instructions are capped at this length, so longer stored inputs are AI responses
+const REWRITE_INSTRUCTION_MAX_LENGTH = 300
+
+type RuleSetRecord = Prisma.ModerationRuleSetGetPayload<object>
+
+const toSummary = (ruleSet: RuleSetRecord): ModerationRuleSetSummary => ({
+    version: ruleSet.version,
+    name: ruleSet.name,
+    notes: ruleSet.notes,
+    status: ruleSet.status as RuleSetStatus,
+    builtIn: false,
+    createdAt: ruleSet.createdAt,
+    activatedAt: ruleSet.activatedAt
+})
+
+const getBuiltInSummary = (hasActiveRuleSet: boolean): ModerationRuleSetSummary => ({
+    version: DEFAULT_RULE_SET_VERSION,
+    name: 'Built-in rules',
+    notes: 'Shipped with the app. Used whenever no stored rule set is active.',
+    status: hasActiveRuleSet ? 'archived' : 'active',
+    builtIn: true,
+    createdAt: null,
+    activatedAt: null
+})
+
+/**
+ * Lists every rule set version, newest first, including the built-in rules
+ */
+export async function listRuleSets(): Promise<ApiResponse<ModerationRuleSetSummary[]>> {
+    try {
+        const authorization = await requireRole(MODERATION_ROLE)
+        if (!authorization.authorized) {
+            return { success: false, error: authorization.error }
+        }
+
+        const ruleSets = await prisma.moderationRuleSet.findMany({
+            orderBy: { version: 'desc' }
+        })
+
+        const hasActiveRuleSet = ruleSets.some(ruleSet => ruleSet.status === 'active')
+
+        return {
+            success: true,
+            data: [...ruleSets.map(toSummary), getBuiltInSummary(hasActiveRuleSet)]
+        }
+    } catch (error) {
+        console.error('Error listing rule sets:', error)
+        return { success: false, error: 'Failed to load rule sets' }
+    }
+}
+
+/**
+ * Gets a rule set version with its definition
+ */
+export async function getRuleSet(version: number): Promise<ApiResponse<ModerationRuleSetDetail>> {
+    try {
+        const authorization = await requireRole(MODERATION_ROLE)
+        if (!authorization.authorized) {
+            return { success: false, error: authorization.error }
+        }
+
+        if (version === DEFAULT_RULE_SET_VERSION) {
+            const activeCount = await prisma.moderationRuleSet.count({ where: { status: 'active' } })
+            return {
+                success: true,
+                data: { ...getBuiltInSummary(activeCount > 0), definition: DEFAULT_RULE_SET }
+            }
+        }
+
+        const ruleSet = await prisma.moderationRuleSet.findUnique({ where: { version } })
+        if (!ruleSet) {
+            return { success: false, error: 'Rule set not found' }
+        }
+
+        return { success: true, data: { ...toSummary(ruleSet), definition: ruleSet.definition } }
+    } catch (error) {
+        console.error('Error loading rule set:', error)
+        return { success: false, error: 'Failed to load rule set' }
+    }
+}
+
+/**
+ * Saves a new rule set version as a draft. It takes effect once activated.
+ */
+export async function createRuleSetVersion(input: {
+    name: string
+    notes?: string
+    definition: unknown
+}): Promise<ApiResponse<ModerationRuleSetSummary>> {
+    try {
+        const authorization = await requireRole(RULE_SET_ADMIN_ROLE)
+        if (!authorization.authorized) {
+            return { success: false, error: authorization.error }
+        }
+
+        const name = input.name?.trim()
+        if (!name) {
+            return { success: false, error: 'A name is required' }
+        }
+
+        const parsed = ruleSetDefinitionSchema.safeParse(input.definition)
+        if (!parsed.success) {
+            return { success: false, error: formatDefinitionErrors(parsed.error) }
+        }
+
+        const latest = await prisma.moderationRuleSet.aggregate({ _max: { version: true } })
+        const version = Math.max(latest._max.version ?? 0, DEFAULT_RULE_SET_VERSION) + 1
+
+        const ruleSet = await prisma.moderationRuleSet.create({
+            data: {
+                version,
+                name,
+                notes: input.notes?.trim() || null,
+                definition: parsed.data as Prisma.InputJsonValue,
+                createdById: authorization.userId
+            }
+        })
+
+        return { success: true, data: toSummary(ruleSet) }
+    } catch (error) {
+        console.error('Error creating rule set:', error)
+        return { success: false, error: 'Failed to create rule set' }
+    }
+}
+
+/**
+ * Makes a version the active rule set. Activating the built-in version archives
+ * the stored one so the app falls back to the built-in rules.
+ */
+export async function activateRuleSet(version: number): Promise<ApiResponse<void>> {
+    try {
+        const authorization = await requireRole(RULE_SET_ADMIN_ROLE)
+        if (!authorization.authorized) {
+            return { success: false, error: authorization.error }
+        }
+
+        if (version !== DEFAULT_RULE_SET_VERSION) {
+            const ruleSet = await prisma.moderationRuleSet.findUnique({ where: { version } })
+            if (!ruleSet) {
+                return { success: false, error: 'Rule set not found' }
+            }
+
+            // Stored definitions are validated on save, but the schema may have changed since
+            const parsed = ruleSetDefinitionSchema.safeParse(ruleSet.definition)
+            if (!parsed.success) {
+                return { success: false, error: formatDefinitionErrors(parsed.error) }
+            }
+        }
+
+        await prisma.$transaction([
+            prisma.moderationRuleSet.updateMany({
+                where: { status: 'active', version: { not: version } },
+                data: { status: 'archived' }
+            }),
+            prisma.moderationRuleSet.updateMany({
+                where: { version },
+                data: { status: 'active', activatedAt: new Date() }
+            })
+        ])
+
+        invalidateModerationEngine()
+        return { success: true }
+    } catch (error) {
+        console.error('Error activating rule set:', error)
+        return { success: false, error: 'Failed to activate rule set' }
+    }
+}
+
+/**
+ * Re-runs historical violations through a candidate rule set without changing anything.
+ * Pass a stored version, or an unsaved definition to try edits before saving them.
+ */
+export async function dryRunRuleSet(
+    candidate: { version: number } | { definition: unknown },
+    limit: number = DRY_RUN_DEFAULT_LIMIT
+): Promise<ApiResponse<RuleSetDryRunResult>> {
+    try {
+        const authorization = await requireRole(MODERATION_ROLE)
+        if (!authorization.authorized) {
+            return { success: false, error: authorization.error }
+        }
+
+        let engine: ModerationEngine
+        let ruleSetVersion: number | null = null
+
+        if ('version' in candidate) {
+            ruleSetVersion = candidate.version
+            let definition: unknown = DEFAULT_RULE_SET
+            if (candidate.version !== DEFAULT_RULE_SET_VERSION) {
+                const ruleSet = await prisma.moderationRuleSet.findUnique({ where: { version: candidate.version } })
+                if (!ruleSet) {
+                    return { success: false, error: 'Rule set not found' }
+                }
+                definition = ruleSet.definition
+            }
+
+            const parsed = ruleSetDefinitionSchema.safeParse(definition)
+            if (!parsed.success) {
+                return { success: false, error: formatDefinitionErrors(parsed.error) }
+            }
+            engine = new ModerationEngine(candidate.version, parsed.data)
+        } else {
+            const parsed = ruleSetDefinitionSchema.safeParse(candidate.definition)
+            if (!parsed.success) {
+                return { success: false, error: formatDefinitionErrors(parsed.error) }
+            }
+            engine = new ModerationEngine(0, parsed.data)
+        }
+
+        const violations = await prisma.securityViolation.findMany({
+            where: { userInput: { not: null } },
+            orderBy: { createdAt: 'desc' },
+            take: Math.min(Math.max(1, Math.floor(limit)), DRY_RUN_MAX_LIMIT),
+            select: {
+                id: true,
+                type: true,
+                severity: true,
+                userInput: true,
+                ruleSetVersion: true,
+                createdAt: true
+            }
+        })
+
+        const outcomes: Record<DryRunOutcome, number> = { still_flagged: 0, severity_changed: 0, cleared: 0 }
+        const results: DryRunViolationResult[] = []
+        let skippedCount = 0
+
+        for (const violation of violations) {
+            if (!violation.userInput || !DRY_RUN_TYPES.includes(violation.type as SecurityViolation['type'])) {
+                skippedCount++
+                continue
+            }
+
+            const matching = getDryRunInputs(violation.userInput)
+                .flatMap(({ field, text }) => engine.evaluate(text, field))
+                .filter(newViolation => newViolation.type === violation.type)
+
+            const newSeverity = matching.reduce<string | null>((highest, newViolation) =>
+                !highest || SEVERITY_ORDER[newViolation.severity] > SEVERITY_ORDER[highest] ? newViolation.severity : highest, null)
+
+            const outcome: DryRunOutcome = !newSeverity
+                ? 'cleared'
+                : matching.some(newViolation => newViolation.severity === violation.severity) ? 'still_flagged' : 'severity_changed'
+
+            outcomes[outcome]++
+            results.push({
+                violationId: violation.id,
+                createdAt: violation.createdAt,
+                type: violation.type,
+                severity: violation.severity,
+                ruleSetVersion: violation.ruleSetVersion,
+                userInput: violation.userInput,
+                outcome,
+                newSeverity,
+                detectedPatterns: [...new Set(matching.map(newViolation => newViolation.detectedPattern))]
+            })
+        }
+
+        return {
+            success: true,
+            data: {
+                ruleSetVersion,
+                evaluatedCount: results.length,
+                skippedCount,
+                outcomes,
+                results
+            }
+        }
+    } catch (error) {
+        console.error('Error running rule set dry run:', error)
+        return { success: false, error: 'Failed to run dry run' }
+    }
+}
+
+/**
+ * Works out which fields a stored input came from. Questionnaires are logged as JSON,
+ * rewrite instructions and AI responses as plain text.
+ */
+function getDryRunInputs(userInput: string): Array<{ field: ContentField; text: string }> {
+    try {
+        const questionnaire = JSON.parse(userInput)
+        if (questionnaire && typeof questionnaire.topic === 'string') {
+            const themes: unknown[] = Array.isArray(questionnaire.customThemes) ? questionnaire.customThemes : []
+            return [
+                { field: 'topic' as const, text: questionnaire.topic },
+                ...(typeof questionnaire.personalStory === 'string'
+                    ? [{ field: 'personalStory' as const, text: questionnaire.personalStory }]
+                    : []),
+                ...themes
+                    .filter((theme): theme is string => typeof theme === 'string')
+                    .map(theme => ({ field: 'customTheme' as const, text: theme }))
+            ]
+        }
+    } catch {
+        // Not a questionnaire
+    }
+
+    return [{
+        field: userInput.length <= REWRITE_INSTRUCTION_MAX_LENGTH ? 'rewriteInstruction' : 'aiResponse',
+        text: userInput
+    }]
+}
+
+function formatDefinitionErrors(error: { issues: Array<{ path: PropertyKey[]; message: string }> }): string {
+    const details = error.issues
+        .slice(0, 5)
+        .map(issue => `${issue.path.map(String).join('.') || 'definition'}: ${issue.message}`)
+    return `Invalid rule set definition. ${details.join('; ')}`
+}
@@ -0,0 +1,288 @@
+'use server'
+
+import crypto from 'crypto'
+import bcrypt from 'bcryptjs'
+import { cookies } from 'next/headers'
+import { prisma } from '../db'
+import { getSession } from './auth'
+import { signAccessGrant, verifyAccessGrant } from '../security/sessionToken'
+import { ApiResponse } from '../types/api/responses'
+import { ChurchSource, MeetingType } from '../types/talks/generation'
+import { CreateShareLinkOptions, PublicSharedTalkResult, ShareLink } from '../types/talks/sharing'
+
+const SHARE_LINK_MAX_DAYS = 90
+const SHARE_LINK_PASSWORD_MIN_LENGTH = 6
+const SHARE_LINK_PASSWORD_MAX_LENGTH = 128
+
+// A link stops accepting passwords for a while after this many wrong ones in a row
+const SHARE_LINK_MAX_FAILED_TRIES = 5
+const SHARE_LINK_LOCKOUT_MS = 15 * 60 * 1000
+
+// 32 random bytes in base64url
+const SHARE_LINK_TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/
+
+// Purpose signed into the cookie that remembers a password-protected link was unlocked
+const SHARE_LINK_GRANT_PURPOSE = 'share-link'
+const SHARE_LINK_COOKIE_PREFIX = 'share_link_'
+
+const getShareLinkPath = (token: string) => `/share/${token}`
+
+function toShareLink(link: {
+    id: string
+    token: string
+    passwordHash: string | null
+    expiresAt: Date
+    revokedAt: Date | null
+    viewCount: number
+    lastViewedAt: Date | null
+    createdAt: Date
+}): ShareLink {
+    return {
+        id: link.id,
+        path: getShareLinkPath(link.token),
+        hasPassword: link.passwordHash !== null,
+        expiresAt: link.expiresAt,
+        revokedAt: link.revokedAt || undefined,
+        viewCount: link.viewCount,
+        lastViewedAt: link.lastViewedAt || undefined,
+        createdAt: link.createdAt
+    }
+}
+
+/**
+ * Finds a link that can still be opened: it exists, hasn't expired and hasn't been revoked
+ */
+async function findActiveShareLink(token: string) {
+    if (!SHARE_LINK_TOKEN_PATTERN.test(token || '')) {
+        return null
+    }
+
+    return prisma.talkShareLink.findFirst({
+        where: {
+            token,
+            revokedAt: null,
+            expiresAt: { gt: new Date() }
+        }
+    })
+}
+
+/**
+ * Creates a public read-only link to one of the current user's talks
+ */
+export async function createShareLink(talkId: string, options: CreateShareLinkOptions): Promise<ApiResponse<ShareLink>> {
+    try {
+        const session = await getSession()
+        if (!session) {
+            return { success: false, error: 'Not authenticated' }
+        }
+
+        const { expiresInDays } = options
+        if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > SHARE_LINK_MAX_DAYS) {
+            return { success: false, error: `Links can last between 1 and ${SHARE_LINK_MAX_DAYS} days` }
+        }
+
+        const password = options.password || ''
+        if (password && (password.length < SHARE_LINK_PASSWORD_MIN_LENGTH || password.length > SHARE_LINK_PASSWORD_MAX_LENGTH)) {
+            return { success: false, error: `Passwords must be ${SHARE_LINK_PASSWORD_MIN_LENGTH} to ${SHARE_LINK_PASSWORD_MAX_LENGTH} characters` }
+        }
+
+        // Only the author can publish a talk outside the app
+        const talk = await prisma.talk.findFirst({
+            where: { id: talkId, userId: session.userId },
+            select: { id: true }
+        })
+
+        if (!talk) {
+            return { success: false, error: 'Talk not found or you do not have permission to share it' }
+        }
+
+        const link = await prisma.talkShareLink.create({
+            data: {
+                talkId,
+                createdById: session.userId,
+                token: crypto.randomBytes(32).toString('base64url'),
+                passwordHash: password ? await bcrypt.hash(password, 10) : null,
+                expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+            }
+        })
+
+        return { success: true, data: toShareLink(link) }
+    } catch (error) {
+        console.error('Error creating share link:', error)
+        return { success: false, error: 'Failed to create share link' }
+    }
+}
+
+/**
+ * Lists the public links to one of the current user's talks, newest first
+ */
+export async function getShareLinks(talkId: string): Promise<ApiResponse<ShareLink[]>> {
+    try {
+        const session = await getSession()
+        if (!session) {
+            return { success: false, error: 'Not authenticated' }
+        }
+
+        const links = await prisma.talkShareLink.findMany({
+            where: { talkId, talk: { userId: session.userId } },
+            orderBy: { createdAt: 'desc' }
+        })
+
+        return { success: true, data: links.map(toShareLink) }
+    } catch (error) {
+        console.error('Error loading share links:', error)
+        return { success: false, error: 'Failed to load share links' }
+    }
+}
+
+/**
+ * Stops a public link from working. Revoked links stay listed with their view count.
+ */
+export async function revokeShareLink(linkId: string): Promise<ApiResponse<void>> {
+    try {
+        const session = await getSession()
+        if (!session) {
+            return { success: false, error: 'Not authenticated' }
+        }
+
+        const result = await prisma.talkShareLink.updateMany({
+            where: {
+                id: linkId,
+                talk: { userId: session.userId },
+                revokedAt: null
+            },
+            data: { revokedAt: new Date() }
+        })
+
+        if (result.count === 0) {
+            return { success: false, error: 'Link not found or already revoked' }
+        }
+
+        return { success: true }
+    } catch (error) {
+        console.error('Error revoking share link:', error)
+        return { success: false, error: 'Failed to revoke share link' }
+    }
+}
+
+/**
+ * Checks the password for a protected link and remembers the visitor unlocked it
+ * until the link expires. After SHARE_LINK_MAX_FAILED_TRIES wrong passwords the link
+ * is locked for everyone for SHARE_LINK_LOCKOUT_MS.
+ */
+export async function unlockShareLink(token: string, password: string): Promise<ApiResponse<void>> {
+    try {
+        const link = await findActiveShareLink(token)
+        if (!link || !link.passwordHash) {
+            return { success: false, error: 'This link has expired or is no longer available' }
+        }
+
+        const lockedError = 'Too many incorrect passwords. Please wait before trying again.'
+        if (link.lockedUntil && link.lockedUntil > new Date()) {
+            return { success: false, error: lockedError }
+        }
+
+        // Count the attempt before checking it, so parallel guesses can't get past the limit
+        const { failedTries } = await prisma.talkShareLink.update({
+            where: { id: link.id },
+            data: { failedTries: { increment: 1 } },
+            select: { failedTries: true }
+        })
+        if (failedTries > SHARE_LINK_MAX_FAILED_TRIES) {
+            await prisma.talkShareLink.update({
+                where: { id: link.id },
+                data: { failedTries: 0, lockedUntil: new Date(Date.now() + SHARE_LINK_LOCKOUT_MS) }
+            })
+            return { success: false, error: lockedError }
+        }
+
+        if (!password || !(await bcrypt.compare(password, link.passwordHash))) {
+            return { success: false, error: 'Incorrect password' }
+        }
+
+        await prisma.talkShareLink.update({
+            where: { id: link.id },
+            data: { failedTries: 0, lockedUntil: null }
+        })
+
+        const cookieStore = await cookies()
+        cookieStore.set(`${SHARE_LINK_COOKIE_PREFIX}${link.id}`, await signAccessGrant(SHARE_LINK_GRANT_PURPOSE, link.id, link.expiresAt), {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === 'production',
+            sameSite: 'lax',
+            path: getShareLinkPath(token),
+            expires: link.expiresAt
+        })
+
+        return { success: true }
+    } catch (error) {
+        console.error('Error unlocking share link:', error)
+        return { success: false, error: 'Failed to open share link' }
+    }
+}
+
+/**
+ * Loads the talk behind a public link for a visitor, counting the view. The questionnaire's
+ * personal details aren't included.
+ */
+export async function getPublicSharedTalk(token: string): Promise<ApiResponse<PublicSharedTalkResult>> {
+    try {
+        const link = await findActiveShareLink(token)
+        if (!link) {
+            return { success: true, data: { status: 'unavailable' } }
+        }
+
+        if (link.passwordHash) {
+            const cookieStore = await cookies()
+            const grant = await verifyAccessGrant(SHARE_LINK_GRANT_PURPOSE, cookieStore.get(`${SHARE_LINK_COOKIE_PREFIX}${link.id}`)?.value)
+            if (grant !== link.id) {
+                return { success: true, data: { status: 'password_required' } }
+            }
+        }
+
+        const [talk] = await prisma.$transaction([
+            prisma.talk.findUniqueOrThrow({
+                where: { id: link.talkId },
+                include: {
+                    user: { select: { firstName: true, lastName: true } },
+                    sources: { orderBy: { order: 'asc' } }
+                }
+            }),
+            prisma.talkShareLink.update({
+                where: { id: link.id },
+                data: { viewCount: { increment: 1 }, lastViewedAt: new Date() }
+            })
+        ])
+
+        return {
+            success: true,
+            data: {
+                status: 'available',
+                authorName: `${talk.user.firstName} ${talk.user.lastName}`,
+                expiresAt: link.expiresAt,
+                talk: {
+                    title: talk.title,
+                    content: talk.content,
+                    duration: talk.duration,
+                    meetingType: talk.meetingType as MeetingType,
+                    sources: talk.sources.map(source => ({
+                        title: source.title,
+                        url: source.url,
+                        type: source.type as ChurchSource['type']
+                    })),
+                    questionnaire: {
+                        topic: talk.topic || '',
+                        duration: talk.duration,
+                        meetingType: talk.meetingType as MeetingType,
+                        gospelLibraryLinks: [],
+                        preferredThemes: [],
+                        customThemes: []
+                    }
+                }
+            }
+        }
+    } catch (error) {
+        console.error('Error loading shared talk link:', error)
+        return { success: false, error: 'Failed to load shared talk' }
+    }
+}
@@ -1,6 +1,9 @@
 'use server'
 
 import { z } from 'zod'
+import { getModerationEngine } from '../security/ruleSetStore'
+import { parseScriptureReference, findScriptureReferences, formatScriptureReference } from '../utils/scriptureReferences'
+import { lookupScripture } from '../services/scriptureCorpus'
 
 export type ValidationResult = {
  success: boolean
@@ -234,7 +237,7 @@ export async function validatePersonalStory(story: string): Promise<ValidationRe
 }
 
 /**
- * Validates scripture references format
+ * Validates scripture references and normalizes them to their canonical form, e.g. "1 Ne. 3:7" to "1 Nephi 3:7"
  */
 export async function validateScriptureReferences(references: string[]): Promise<{
  success: boolean
@@ -244,9 +247,6 @@ export async function validateScriptureReferences(references: string[]): Promise
  const validReferences = []
  const errors = []
 
- // Common scripture book patterns
- const scripturePattern = /^(1|2|3)?\s*\b(Genesis|Exodus|Leviticus|Numbers|Deuteronomy|Joshua|Judges|Ruth|Samuel|Kings|Chronicles|Ezra|Nehemiah|Esther|Job|Psalms?|Proverbs|Ecclesiastes|Song of Solomon|Isaiah|Jeremiah|Lamentations|Ezekiel|Daniel|Hosea|Joel|Amos|Obadiah|Jonah|Micah|Nahum|Habakkuk|Zephaniah|Haggai|Zechariah|Malachi|Matthew|Mark|Luke|John|Acts|Romans|Corinthians|Galatians|Ephesians|Philippians|Colossians|Thessalonians|Timothy|Titus|Philemon|Hebrews|James|Peter|Jude|Revelation|Nephi|Jacob|Enos|Jarom|Omni|Words of Mormon|Mosiah|Alma|Helaman|Mormon|Ether|Moroni|Moses|Abraham|Joseph Smith|Articles of Faith|D&C|Doctrine and Covenants)\b.*\d+/i
-
  for (const reference of references) {
  if (!reference.trim()) {
  continue // Skip empty references
@@ -258,14 +258,33 @@ export async function validateScriptureReferences(references: string[]): Promise
  continue
  }
 
- const sanitizedRef = sanitizeResult.validatedContent || ''
+ // Parse the original text: sanitizing strips characters references use, like the "&" in "D&C".
+ // The canonical form is rebuilt from the book table, so nothing unsanitized is kept.
+ // One entry can hold several references and notes, e.g. "2 Nephi 2:25; Moses 1:39" or "Ether 12:27 (weakness)".
+ const whole = parseScriptureReference(reference)
+ const parsedReferences = whole ? [whole] : findScriptureReferences(reference).map(found => found.reference)
 
- // Basic format validation
- if (scripturePattern.test(sanitizedRef) || sanitizedRef.length < 100) {
+ if (parsedReferences.length === 0) {
+ // No reference in it: keep the entry as free text
+ const sanitizedRef = sanitizeResult.validatedContent || ''
+ if (sanitizedRef.length < 100) {
  validReferences.push(sanitizedRef)
  } else {
  errors.push(`Invalid scripture format: ${reference}`)
  }
+ continue
+ }
+
+ for (const parsed of parsedReferences) {
+ // With the standard works imported, every verse has to exist; without them only the book and chapter are checked
+ const lookup = await lookupScripture(parsed)
+ if (lookup && lookup.missing.length > 0) {
+ errors.push(`${formatScriptureReference(parsed)} does not exist: there is no ${lookup.missing.join(', ')}`)
+ continue
+ }
+
+ validReferences.push(formatScriptureReference(parsed))
+ }
  }
 
  return {
@@ -431,54 +450,23 @@ export async function validateGeneratedTalkContent(content: string): Promise<{
 
  const sanitizedContent = sanitizeResult.validatedContent || ''
 
- // Check for non-Church sources
- const nonChurchSourcePatterns = [
- // Common non-Church websites
- /\b(?:wikipedia|google|youtube|facebook|twitter|instagram|amazon|goodreads|deseret\.com|ldsliving\.com)\b/gi,
- // Non-Church book references
- /\b(?:book|author|published|isbn|edition)\s+(?:by|from|in)\s+(?!.*church)/gi,
- // External URLs that aren't Church domains
- /https?:\/\/(?!(?:www\.)?(?:churchofjesuschrist|lds)\.org)[^\s]+/gi
- ]
+ const engine = await getModerationEngine()
 
- for (const pattern of nonChurchSourcePatterns) {
- const matches = sanitizedContent.match(pattern)
- if (matches) {
- errors.push(`Generated content contains non-Church sources: ${matches.slice(0, 3).join(', ')}`)
- }
+ // Check for non-Church sources
+ const nonChurchSources = engine.findNonChurchSources(sanitizedContent)
+ if (nonChurchSources.length > 0) {
+ errors.push(`Generated content contains non-Church sources: ${nonChurchSources.slice(0, 3).join(', ')}`)
  }
 
  // Check for inappropriate content
- const inappropriatePatterns = [
- // Political content
- /\b(?:democrat|republican|liberal|conservative|politics|political|government|election|vote|voting)\b/gi,
- // Controversial topics
- /\b(?:controversial|debate|argument|disagree|conflict|dispute)\b/gi,
- // Personal opinions on Church policies
- /\b(?:I think the church should|the church needs to|church policy|church leadership should)\b/gi
- ]
-
- for (const pattern of inappropriatePatterns) {
- const matches = sanitizedContent.match(pattern)
- if (matches) {
- warnings.push(`Content may contain inappropriate topics: ${matches.slice(0, 2).join(', ')}`)
- }
+ for (const issue of engine.checkTalkContent(sanitizedContent, 'generated_talk', 'warning')) {
+ warnings.push(`Content may contain inappropriate topics: ${issue.matches.slice(0, 2).join(', ')}`)
  }
 
  // Check for doctrinal accuracy indicators
- const doctrinalConcernPatterns = [
- // Unsubstantiated claims
- /\b(?:I believe that God|the church teaches that|doctrine states)\b/gi,
- // Personal revelation claims
- /\b(?:God told me|I received revelation|the spirit revealed)\b/gi
- ]
-
- for (const pattern of doctrinalConcernPatterns) {
- const matches = sanitizedContent.match(pattern)
- if (matches) {
+ for (const { matches } of engine.findDoctrinalConcerns(sanitizedContent)) {
  warnings.push(`Content may need doctrinal review: ${matches.slice(0, 2).join(', ')}`)
  }
- }
 
  // Check for proper Church terminology
  const terminologyIssues = []
@@ -622,54 +610,16 @@ export async function applySafetyFilter(content: string): Promise<{
  const errors: string[] = []
 
  try {
- let filteredContent = content
-
- // Define patterns for content that should be removed or flagged
- const unsafePatterns = [
- // Personal information patterns
- {
- pattern: /\b\d{3}-\d{2}-\d{4}\b/g, // SSN pattern
- replacement: '[PERSONAL INFO REMOVED]',
- description: 'Social Security Number'
- },
- {
- pattern: /\b\d{3}-\d{3}-\d{4}\b/g, // Phone number pattern
- replacement: '[PHONE NUMBER REMOVED]',
- description: 'Phone Number'
- },
- {
- pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, // Email pattern
- replacement: '[EMAIL REMOVED]',
- description: 'Email Address'
- },
- // Potentially harmful content
- {
- pattern: /\b(?:password|credit card|bank account|social security)\b[:\s]*[^\s]+/gi,
- replacement: '[SENSITIVE INFO REMOVED]',
- description: 'Sensitive Information'
- }
- ]
+ const engine = await getModerationEngine()
 
- // Apply safety filters
- for (const { pattern, replacement, description } of unsafePatterns) {
- const matches = filteredContent.match(pattern)
- if (matches) {
- removedContent.push(`${description}: ${matches.length} instance(s)`)
- filteredContent = filteredContent.replace(pattern, replacement)
- }
- }
+ // Remove personal information
+ const redaction = engine.redact(content)
+ const filteredContent = redaction.content
+ removedContent.push(...redaction.removed)
 
  // Check for content that should trigger errors (not just warnings)
- const errorPatterns = [
- /\b(?:hate|violence|harm|hurt|kill|die|death)\s+(?:someone|people|others)\b/gi,
- /\b(?:illegal|criminal|crime|steal|theft)\b/gi
- ]
-
- for (const pattern of errorPatterns) {
- const matches = filteredContent.match(pattern)
- if (matches) {
- errors.push(`Potentially harmful content detected: ${matches.slice(0, 2).join(', ')}`)
- }
+ for (const issue of engine.checkTalkContent(filteredContent, 'generated_talk', 'error')) {
+ errors.push(`${issue.message}: ${issue.matches.slice(0, 2).join(', ')}`)
  }
 
  return {
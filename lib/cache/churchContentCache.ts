@@ -0,0 +1,112 @@
+// Durable cache for fetched Gospel Library pages.
+// Parsed pages live in Postgres so every instance shares them and they survive cold starts,
+// with the in-process church content cache in front to save a query on repeat reads.
+// Every function degrades to a cache miss if the database is unavailable.
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '../db'
+import { getCachedChurchContent, setCachedChurchContent } from './queryCache'
+import { ChurchPageContent } from '../types/talks/churchContent'
+import { EXTRACTOR_VERSION } from '../utils/gospelLibraryExtractor'
+
+// How long a page is served without asking the site whether it changed
+const FRESH_TTL_MS = 24 * 60 * 60 * 1000
+
+// Keep entries in process memory briefly so revalidations by other instances are picked up
+const MEMORY_TTL_SECONDS = 10 * 60
+
+export interface ChurchPageCacheEntry {
+    content: ChurchPageContent
+    etag: string | null
+    lastModified: string | null
+    expiresAt: Date
+}
+
+/**
+ * Looks up a cached page, fresh or stale. Entries parsed by an older extractor count as misses.
+ */
+export async function getChurchPageCacheEntry(url: string): Promise<ChurchPageCacheEntry | null> {
+    const remembered = await getCachedChurchContent(url) as ChurchPageCacheEntry | null
+    if (remembered) {
+        return remembered
+    }
+
+    try {
+        const row = await prisma.churchPageCache.findUnique({ where: { url } })
+        if (!row || row.parserVersion !== EXTRACTOR_VERSION) {
+            return null
+        }
+
+        const entry: ChurchPageCacheEntry = {
+            content: row.content as unknown as ChurchPageContent,
+            etag: row.etag,
+            lastModified: row.lastModified,
+            expiresAt: row.expiresAt
+        }
+        await setCachedChurchContent(url, entry, MEMORY_TTL_SECONDS)
+        return entry
+    } catch (error) {
+        console.error('Church page cache read error:', error)
+        return null
+    }
+}
+
+/**
+ * Whether an entry can be served without revalidating it with the site
+ */
+export function isChurchPageCacheEntryFresh(entry: ChurchPageCacheEntry): boolean {
+    return new Date(entry.expiresAt).getTime() > Date.now()
+}
+
+/**
+ * Stores a freshly fetched page with the validators the site sent for it
+ */
+export async function setChurchPageCacheEntry(
+    url: string,
+    content: ChurchPageContent,
+    validators: { etag: string | null; lastModified: string | null }
+): Promise<void> {
+    const now = new Date()
+    const entry: ChurchPageCacheEntry = {
+        content,
+        ...validators,
+        expiresAt: new Date(now.getTime() + FRESH_TTL_MS)
+    }
+    await setCachedChurchContent(url, entry, MEMORY_TTL_SECONDS)
+
+    try {
+        const data = {
+            content: content as unknown as Prisma.InputJsonValue,
+            parserVersion: EXTRACTOR_VERSION,
+            etag: validators.etag,
+            lastModified: validators.lastModified,
+            fetchedAt: now,
+            expiresAt: entry.expiresAt
+        }
+        await prisma.churchPageCache.upsert({
+            where: { url },
+            create: { url, ...data },
+            update: data
+        })
+    } catch (error) {
+        console.error('Church page cache write error:', error)
+    }
+}
+
+/**
+ * Marks a cached page fresh again after the site answered 304 Not Modified
+ */
+export async function refreshChurchPageCacheEntry(url: string, entry: ChurchPageCacheEntry): Promise<void> {
+    const now = new Date()
+    const refreshed: ChurchPageCacheEntry = { ...entry, expiresAt: new Date(now.getTime() + FRESH_TTL_MS) }
+    await setCachedChurchContent(url, refreshed, MEMORY_TTL_SECONDS)
+
+    try {
+        await prisma.churchPageCache.updateMany({
+            where: { url },
+            data: { fetchedAt: now, expiresAt: refreshed.expiresAt }
+        })
+    } catch (error) {
+        console.error('Church page cache refresh error:', error)
+    }
+}
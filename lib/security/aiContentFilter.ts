@@ -2,6 +2,8 @@
 
 import { sanitizeInput, scanContentSecurity } from './inputSanitization'
 import { logSecurityViolationWithContext, checkRateLimit } from './violationLogger'
+import { getModerationEngine } from './ruleSetStore'
+import type { ModerationEngine } from './moderationEngine'
 
 /**
  * AI Content Filter System
@@ -24,6 +26,8 @@ export interface SecurityViolation {
     timestamp: Date
     userId?: string
     ipAddress?: string
+    ruleSetVersion?: number // Moderation rule set that produced the violation
+    violationId?: string // SecurityViolation row, set once logged
 }
 
 export interface ContentValidationRules {
@@ -43,75 +47,12 @@ const AI_FILTER_CONFIG = {
         topic: 200,
         personalStory: 10000,
         customTheme: 100,
+        rewriteInstruction: 300,
         generalInput: 5000
     },
 
-    // Patterns that indicate manipulation attempts
-    manipulationPatterns: [
-        // Direct AI instruction attempts
-        /\b(?:ignore|forget|disregard)\s+(?:previous|all|your)\s+(?:instructions|prompts|rules)/gi,
-        /\b(?:act|pretend|roleplay)\s+(?:as|like)\s+(?:a|an)?\s*(?:different|other|new)\s+(?:ai|assistant|bot|system)/gi,
-        /\b(?:system|admin|root|developer)\s+(?:mode|access|override|command)/gi,
-
-        // Prompt injection attempts
-        /\b(?:new|different|alternative)\s+(?:prompt|instruction|rule|system)/gi,
-        /\b(?:end|stop|terminate)\s+(?:previous|current)\s+(?:prompt|instruction|session)/gi,
-        /\b(?:switch|change|modify)\s+(?:to|into)\s+(?:mode|character|personality)/gi,
-
-        // Jailbreak attempts
-        /\b(?:jailbreak|bypass|circumvent|override)\s+(?:safety|security|filter|restriction)/gi,
-        /\b(?:dan|do anything now|unrestricted|unlimited)\s+(?:mode|access|capability)/gi,
-
-        // Meta-instruction attempts
-        /\b(?:you are|you're)\s+(?:now|going to be)\s+(?:a|an)?\s*(?:different|new|other)/gi,
-        /\b(?:from now on|starting now|beginning now)/gi,
-    ],
-
-    // Inappropriate content patterns for religious context
-    inappropriatePatterns: [
-        // Political content
-        /\b(?:democrat|republican|liberal|conservative|politics|political|government|election|vote|voting|biden|trump|congress|senate)\b/gi,
-
-        // Controversial topics
-        /\b(?:abortion|gay marriage|lgbtq|transgender|homosexual|lesbian|bisexual)\b/gi,
-
-        // Anti-religious content
-        /\b(?:cult|brainwash|false prophet|fake religion|scam|fraud)\b/gi,
-
-        // Inappropriate language
-        /\b(?:damn|hell|crap|stupid|idiot|moron|dumb|sucks|hate)\b/gi,
-
-        // Violence or harmful content
-        /\b(?:kill|murder|suicide|death|violence|harm|hurt|attack|weapon|gun|bomb)\b/gi,
-
-        // Sexual content
-        /\b(?:sex|sexual|porn|naked|nude|breast|penis|vagina|orgasm|masturbat)\b/gi,
-
-        // Substance abuse
-        /\b(?:drug|cocaine|marijuana|alcohol|beer|wine|drunk|high|addiction)\b/gi,
-    ],
-
-    // Spam indicators
-    spamPatterns: [
-        // Repetitive content
-        /(.{10,})\1{3,}/gi, // Same text repeated 4+ times
-
-        // Excessive punctuation
-        /[!?]{4,}/g,
-        /[.]{4,}/g,
-
-        // All caps (more than 50% of content)
-        /^[A-Z\s!?.,]{20,}$/,
-
-        // URL spam (non-Church domains)
-        /https?:\/\/(?!(?:www\.)?(?:churchofjesuschrist|lds)\.org)[^\s]+/gi,
-
-        // Email addresses
-        /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/gi,
-
-        // Phone numbers
-        /\b\d{3}[-.]?\d{3}[-.]?\d{4}\b/g,
-    ],
+    // Detection patterns (manipulation, inappropriate content, spam, sources) live in the
+    // versioned moderation rule set, see ./moderationEngine and ./defaultRuleSet
 
     // Required elements for valid religious content
     requiredElements: {
@@ -171,8 +112,11 @@ export async function validateQuestionnaireInput(
                 }
             }
         }
+
+        const engine = await getModerationEngine()
+
         // Validate topic
-        const topicResult = await validateTopic(questionnaire.topic)
+        const topicResult = await validateTopic(questionnaire.topic, engine)
         if (!topicResult.success) {
             errors.push(...topicResult.errors)
             securityViolations.push(...topicResult.securityViolations)
@@ -183,7 +127,7 @@ export async function validateQuestionnaireInput(
 
         // Validate personal story if provided
         if (questionnaire.personalStory) {
-            const storyResult = await validatePersonalStory(questionnaire.personalStory)
+            const storyResult = await validatePersonalStory(questionnaire.personalStory, engine)
             if (!storyResult.success) {
                 errors.push(...storyResult.errors)
                 securityViolations.push(...storyResult.securityViolations)
@@ -195,7 +139,7 @@ export async function validateQuestionnaireInput(
 
         // Validate custom themes if provided
         if (questionnaire.customThemes && questionnaire.customThemes.length > 0) {
-            const themesResult = await validateCustomThemes(questionnaire.customThemes)
+            const themesResult = await validateCustomThemes(questionnaire.customThemes, engine)
             if (!themesResult.success) {
                 errors.push(...themesResult.errors)
                 securityViolations.push(...themesResult.securityViolations)
@@ -250,10 +194,105 @@ export async function validateQuestionnaireInput(
     }
 }
 
+/**
+ * Validates the instruction given for rewriting a passage of a talk
+ */
+export async function validateRewriteInstruction(
+    instruction: string,
+    context?: {
+        userId?: string
+        sessionId?: string
+        ipAddress?: string
+    }
+): Promise<AIContentFilterResult & { rateLimited?: boolean }> {
+    const errors: string[] = []
+    const securityViolations: SecurityViolation[] = []
+
+    try {
+        // Check rate limiting first
+        if (context) {
+            const rateLimitResult = await checkRateLimit(
+                context.userId,
+                context.ipAddress,
+                context.sessionId
+            )
+
+            if (rateLimitResult.isBlocked) {
+                return {
+                    success: false,
+                    errors: [`Rate limit exceeded. Please try again in ${rateLimitResult.blockDuration} minutes.`],
+                    warnings: [],
+                    securityViolations: [],
+                    rateLimited: true
+                }
+            }
+        }
+
+        const sanitizeResult = await sanitizeInput(instruction, 'general', {
+            allowHTML: false,
+            preserveNewlines: false,
+            removeSensitiveInfo: true
+        })
+
+        if (!sanitizeResult.success) {
+            errors.push(...sanitizeResult.errors)
+        }
+
+        const sanitizedInstruction = sanitizeResult.sanitizedValue
+
+        // Check length
+        if (!sanitizedInstruction || sanitizedInstruction.length < 3) {
+            errors.push('Rewrite instruction must be at least 3 characters long')
+        }
+
+        if (sanitizedInstruction.length > AI_FILTER_CONFIG.maxLengths.rewriteInstruction) {
+            errors.push(`Rewrite instruction must be less than ${AI_FILTER_CONFIG.maxLengths.rewriteInstruction} characters`)
+        }
+
+        // The instruction goes straight into the prompt, so manipulation checks matter most here
+        const engine = await getModerationEngine()
+        securityViolations.push(...engine.evaluate(sanitizedInstruction, 'rewriteInstruction'))
+
+        const criticalViolations = securityViolations.filter(v => v.severity === 'critical')
+        if (criticalViolations.length > 0) {
+            errors.push('Rewrite instruction contains content that cannot be processed')
+        }
+
+        // Log security violations if any
+        if (securityViolations.length > 0 && context) {
+            await logSecurityViolationWithContext(securityViolations, {
+                userInput: instruction,
+                userId: context.userId,
+                sessionId: context.sessionId,
+                action: 'rewrite_instruction_validation',
+                endpoint: '/talk/[id]'
+            })
+        }
+
+        return {
+            success: errors.length === 0,
+            sanitizedInput: errors.length === 0 ? sanitizedInstruction : undefined,
+            errors,
+            warnings: sanitizeResult.warnings,
+            securityViolations,
+            rateLimited: false
+        }
+    } catch (error) {
+        console.error('Rewrite instruction validation error:', error)
+        return {
+            success: false,
+            errors: ['Failed to validate rewrite instruction'],
+            warnings: [],
+            securityViolations: [],
+            rateLimited: false
+        }
+    }
+}
+
 /**
  * Validates topic input
  */
-async function validateTopic(topic: string): Promise<AIContentFilterResult> {
+async function validateTopic(topic: string, engine: ModerationEngine): Promise<AIContentFilterResult> {
     const errors: string[] = []
     const warnings: string[] = []
     const securityViolations: SecurityViolation[] = []
@@ -280,17 +319,8 @@ async function validateTopic(topic: string): Promise<AIContentFilterResult> {
         errors.push(`Topic must be less than ${AI_FILTER_CONFIG.maxLengths.topic} characters`)
     }
 
-    // Check for manipulation attempts
-    const manipulationViolations = detectManipulationAttempts(sanitizedTopic)
-    securityViolations.push(...manipulationViolations)
-
-    // Check for inappropriate content
-    const inappropriateViolations = detectInappropriateContent(sanitizedTopic)
-    securityViolations.push(...inappropriateViolations)
-
-    // Check for spam patterns
-    const spamViolations = detectSpamPatterns(sanitizedTopic)
-    securityViolations.push(...spamViolations)
+    // Check for manipulation attempts, inappropriate content and spam
+    securityViolations.push(...engine.evaluate(sanitizedTopic, 'topic'))
 
     // Check if topic is Church-appropriate
     const isAppropriate = checkChurchAppropriate(sanitizedTopic)
@@ -316,7 +346,7 @@ async function validateTopic(topic: string): Promise<AIContentFilterResult> {
 /**
  * Validates personal story input
  */
-async function validatePersonalStory(story: string): Promise<AIContentFilterResult> {
+async function validatePersonalStory(story: string, engine: ModerationEngine): Promise<AIContentFilterResult> {
     const errors: string[] = []
     const warnings: string[] = []
     const securityViolations: SecurityViolation[] = []
@@ -339,17 +369,8 @@ async function validatePersonalStory(story: string): Promise<AIContentFilterResu
         errors.push(`Personal story must be less than ${AI_FILTER_CONFIG.maxLengths.personalStory} characters`)
     }
 
-    // Check for manipulation attempts
-    const manipulationViolations = detectManipulationAttempts(sanitizedStory)
-    securityViolations.push(...manipulationViolations)
-
-    // Check for inappropriate content
-    const inappropriateViolations = detectInappropriateContent(sanitizedStory)
-    securityViolations.push(...inappropriateViolations)
-
-    // Check for spam patterns
-    const spamViolations = detectSpamPatterns(sanitizedStory)
-    securityViolations.push(...spamViolations)
+    // Check for manipulation attempts, inappropriate content and spam
+    securityViolations.push(...engine.evaluate(sanitizedStory, 'personalStory'))
 
     // Additional security scan
     const securityScan = await scanContentSecurity(sanitizedStory)
@@ -381,7 +402,7 @@ async function validatePersonalStory(story: string): Promise<AIContentFilterResu
 /**
  * Validates custom themes
  */
-async function validateCustomThemes(themes: string[]): Promise<AIContentFilterResult> {
+async function validateCustomThemes(themes: string[], engine: ModerationEngine): Promise<AIContentFilterResult> {
     const errors: string[] = []
     const warnings: string[] = []
     const securityViolations: SecurityViolation[] = []
@@ -409,8 +430,7 @@ async function validateCustomThemes(themes: string[]): Promise<AIContentFilterRe
         }
 
         // Check for inappropriate content
-        const inappropriateViolations = detectInappropriateContent(sanitizedTheme)
-        securityViolations.push(...inappropriateViolations)
+        securityViolations.push(...engine.evaluate(sanitizedTheme, 'customTheme'))
 
         // Check if theme is Church-appropriate
         const isAppropriate = checkChurchAppropriate(sanitizedTheme)
@@ -520,72 +540,6 @@ async function validateBasicFields(fields: {
     }
 }
 
-/**
- * Detects manipulation attempts in input
- */
-function detectManipulationAttempts(input: string): SecurityViolation[] {
-    const violations: SecurityViolation[] = []
-
-    for (const pattern of AI_FILTER_CONFIG.manipulationPatterns) {
-        const matches = input.match(pattern)
-        if (matches) {
-            violations.push({
-                type: 'manipulation_attempt',
-                severity: 'critical',
-                description: 'Attempt to manipulate AI behavior detected',
-                detectedPattern: matches[0],
-                timestamp: new Date()
-            })
-        }
-    }
-
-    return violations
-}
-
-/**
- * Detects inappropriate content
- */
-function detectInappropriateContent(input: string): SecurityViolation[] {
-    const violations: SecurityViolation[] = []
-
-    for (const pattern of AI_FILTER_CONFIG.inappropriatePatterns) {
-        const matches = input.match(pattern)
-        if (matches) {
-            violations.push({
-                type: 'inappropriate_content',
-                severity: 'high',
-                description: 'Inappropriate content for religious context detected',
-                detectedPattern: matches[0],
-                timestamp: new Date()
-            })
-        }
-    }
-
-    return violations
-}
-
-/**
- * Detects spam patterns
- */
-function detectSpamPatterns(input: string): SecurityViolation[] {
-    const violations: SecurityViolation[] = []
-
-    for (const pattern of AI_FILTER_CONFIG.spamPatterns) {
-        const matches = input.match(pattern)
-        if (matches) {
-            violations.push({
-                type: 'spam',
-                severity: 'medium',
-                description: 'Spam-like content detected',
-                detectedPattern: matches[0],
-                timestamp: new Date()
-            })
-        }
-    }
-
-    return violations
-}
-
 /**
  * Checks if content is appropriate for Church setting
  */
@@ -621,6 +575,8 @@ export async function validateAIResponse(
     const securityViolations: SecurityViolation[] = []
 
     try {
+        const engine = await getModerationEngine()
+
         // Sanitize the response
         const sanitizeResult = await sanitizeInput(response, 'general', {
             allowHTML: false,
@@ -647,17 +603,16 @@ export async function validateAIResponse(
         }
 
         // Check for inappropriate content in response
-        const inappropriateViolations = detectInappropriateContent(sanitizedResponse)
-        securityViolations.push(...inappropriateViolations)
+        securityViolations.push(...engine.evaluate(sanitizedResponse, 'aiResponse'))
 
         // Check for non-Church sources
-        const nonChurchSources = detectNonChurchSources(sanitizedResponse)
+        const nonChurchSources = engine.findNonChurchSources(sanitizedResponse)
         if (nonChurchSources.length > 0) {
             warnings.push(`Response contains non-Church sources: ${nonChurchSources.join(', ')}`)
         }
 
         // Check for doctrinal concerns
-        const doctrinalConcerns = detectDoctrinalConcerns(sanitizedResponse)
+        const doctrinalConcerns = engine.findDoctrinalConcerns(sanitizedResponse).map(({ concern }) => concern)
         if (doctrinalConcerns.length > 0) {
             warnings.push(`Response may have doctrinal concerns: ${doctrinalConcerns.join(', ')}`)
         }
@@ -690,46 +645,3 @@ export async function validateAIResponse(
         }
     }
 }
-
-/**
- * Detects non-Church sources in content
- */
-function detectNonChurchSources(content: string): string[] {
-    const nonChurchSources: string[] = []
-
-    const nonChurchPatterns = [
-        /\b(?:wikipedia|google|youtube|facebook|twitter|instagram|amazon|goodreads)\b/gi,
-        /https?:\/\/(?!(?:www\.)?(?:churchofjesuschrist|lds)\.org)[^\s]+/gi
-    ]
-
-    for (const pattern of nonChurchPatterns) {
-        const matches = content.match(pattern)
-        if (matches) {
-            nonChurchSources.push(...matches)
-        }
-    }
-
-    return [...new Set(nonChurchSources)] // Remove duplicates
-}
-
-/**
- * Detects potential doctrinal concerns
- */
-function detectDoctrinalConcerns(content: string): string[] {
-    const concerns: string[] = []
-
-    const doctrinalPatterns = [
-        { pattern: /\bI believe that God\b/gi, concern: 'Personal belief stated as doctrine' },
-        { pattern: /\bthe church teaches that\b/gi, concern: 'Unofficial doctrine claim' },
-        { pattern: /\bGod told me\b/gi, concern: 'Personal revelation claim' },
-        { pattern: /\bI received revelation\b/gi, concern: 'Personal revelation claim' }
-    ]
-
-    for (const { pattern, concern } of doctrinalPatterns) {
-        if (pattern.test(content)) {
-            concerns.push(concern)
-        }
-    }
-
-    return concerns
-}
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { prisma } from '../db'
+import { getSession } from '../actions/auth'
+import { toUserRole, hasRequiredRole } from './roles'
+import { UserRole } from '../types/auth/user'
+import { AuthorizationResult } from '../types/auth/session'
+
+/**
+ * Checks that the current session belongs to a user with at least the given role.
+ * Reads the role from the database on every call so demotions apply immediately.
+ *
+ * Server actions return `{ success: false, error }` when not authorized;
+ * route handlers respond with `result.status`.
+ */
+export async function requireRole(requiredRole: UserRole): Promise<AuthorizationResult> {
+    const session = await getSession()
+
+    if (!session) {
+        return { authorized: false, status: 401, error: 'You must be logged in' }
+    }
+
+    try {
+        const user = await prisma.user.findUnique({
+            where: { id: session.userId },
+            select: { role: true }
+        })
+
+        if (!user || !hasRequiredRole(user.role, requiredRole)) {
+            return { authorized: false, status: 403, error: 'You do not have permission to do that' }
+        }
+
+        return {
+            authorized: true,
+            userId: session.userId,
+            sessionId: session.sessionId,
+            role: toUserRole(user.role)
+        }
+    } catch (error) {
+        console.error('Authorization check error:', error)
+        return { authorized: false, status: 403, error: 'You do not have permission to do that' }
+    }
+}
@@ -0,0 +1,147 @@
+// Built-in moderation rule set (version 1).
+// Used until an admin activates a rule set stored in the database, and as the
+// starting point for new versions. Patterns are regex sources; flags default to "gi".
+
+import type { RuleSetDefinitionInput } from './moderationEngine'
+
+export const DEFAULT_RULE_SET_VERSION = 1
+
+export const DEFAULT_RULE_SET: RuleSetDefinitionInput = {
+    manipulation: [
+        // Direct AI instruction attempts
+        { id: 'ignore_instructions', pattern: String.raw`\b(?:ignore|forget|disregard)\s+(?:previous|all|your)\s+(?:instructions|prompts|rules)` },
+        { id: 'act_as_other_ai', pattern: String.raw`\b(?:act|pretend|roleplay)\s+(?:as|like)\s+(?:a|an)?\s*(?:different|other|new)\s+(?:ai|assistant|bot|system)` },
+        { id: 'privileged_mode', pattern: String.raw`\b(?:system|admin|root|developer)\s+(?:mode|access|override|command)` },
+
+        // Prompt injection attempts
+        { id: 'new_prompt', pattern: String.raw`\b(?:new|different|alternative)\s+(?:prompt|instruction|rule|system)` },
+        { id: 'end_prompt', pattern: String.raw`\b(?:end|stop|terminate)\s+(?:previous|current)\s+(?:prompt|instruction|session)` },
+        { id: 'switch_mode', pattern: String.raw`\b(?:switch|change|modify)\s+(?:to|into)\s+(?:mode|character|personality)` },
+
+        // Jailbreak attempts
+        { id: 'bypass_safety', pattern: String.raw`\b(?:jailbreak|bypass|circumvent|override)\s+(?:safety|security|filter|restriction)` },
+        { id: 'unrestricted_mode', pattern: String.raw`\b(?:dan|do anything now|unrestricted|unlimited)\s+(?:mode|access|capability)` },
+
+        // Meta-instruction attempts
+        { id: 'you_are_now', pattern: String.raw`\b(?:you are|you're)\s+(?:now|going to be)\s+(?:a|an)?\s*(?:different|new|other)` },
+        { id: 'from_now_on', pattern: String.raw`\b(?:from now on|starting now|beginning now)` }
+    ],
+
+    spam: [
+        { id: 'repeated_text', pattern: String.raw`(.{10,})\1{3,}` }, // Same text repeated 4+ times
+        { id: 'excessive_punctuation', pattern: String.raw`[!?]{4,}`, flags: 'g' },
+        { id: 'excessive_periods', pattern: String.raw`[.]{4,}`, flags: 'g' },
+        { id: 'all_caps', pattern: String.raw`^[A-Z\s!?.,]{20,}$`, flags: '' },
+        { id: 'non_church_url', pattern: String.raw`https?:\/\/(?!(?:www\.)?(?:churchofjesuschrist|lds)\.org)[^\s]+` },
+        { id: 'email_address', pattern: String.raw`\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b` },
+        { id: 'phone_number', pattern: String.raw`\b\d{3}[-.]?\d{3}[-.]?\d{4}\b`, flags: 'g' }
+    ],
+
+    inappropriate: {
+        categories: [
+            { category: 'political', weight: 0.6, pattern: String.raw`\b(?:democrat|republican|liberal|conservative|politics|political|government|election|vote|voting|biden|trump|congress|senate)\b` },
+            { category: 'controversial', weight: 0.8, pattern: String.raw`\b(?:abortion|gay marriage|lgbtq|transgender|homosexual|lesbian|bisexual)\b` },
+            { category: 'anti_religious', weight: 0.7, pattern: String.raw`\b(?:cult|brainwash|false prophets?|fake religion|scam|fraud)\b` },
+            { category: 'language', weight: 0.5, pattern: String.raw`\b(?:damn|hell|crap|stupid|idiot|moron|dumb|sucks|hate)\b` },
+            { category: 'violence', weight: 0.5, pattern: String.raw`\b(?:kill|murder|suicide|death|violence|harm|hurt|attack|weapon|gun|bomb)\b` },
+            { category: 'sexual', weight: 0.8, pattern: String.raw`\b(?:sex|sexual|breast)\b` },
+            { category: 'explicit', weight: 1.5, pattern: String.raw`\b(?:porn\w*|naked|nude|penis|vagina|orgasm|masturbat\w*)\b` },
+            { category: 'substance', weight: 0.4, pattern: String.raw`\b(?:drug|cocaine|marijuana|alcohol|beer|wine|drunk|high|addiction)\b` }
+        ],
+
+        doctrinalAllowlist: [
+            // Death and the Resurrection
+            { pattern: String.raw`\bvictory over (?:death|the grave)\b` },
+            { pattern: String.raw`\b(?:overcame|overcome|overcoming|conquered|triumph over) death\b` },
+            { pattern: String.raw`\b(?:physical|spiritual|temporal|second) death\b` },
+            { pattern: String.raw`\b(?:bands|sting|shadow|valley of the shadow) of death\b` },
+            { pattern: String.raw`\blife after death\b` },
+            { pattern: String.raw`\bdeath and hell\b` },
+            { pattern: String.raw`\bdeath (?:and|to) (?:life|resurrection)\b` },
+
+            // Hell and the spirit world
+            { pattern: String.raw`\bgates of hell\b` },
+            { pattern: String.raw`\b(?:chains|pains|depths|jaws) of hell\b` },
+            { pattern: String.raw`\bhell shall not prevail\b` },
+
+            // Moral teaching
+            { pattern: String.raw`\bhate (?:the )?sin\b` },
+            { pattern: String.raw`\bthou shalt not (?:kill|murder)\b` },
+            { pattern: String.raw`\b(?:do|does|did) no harm\b` },
+            { pattern: String.raw`\bharm no one\b` },
+            { pattern: String.raw`\bbeware of false prophets\b` },
+            { pattern: String.raw`\b(?:sexual|moral) purity\b` },
+            { pattern: String.raw`\bsexual (?:sin|transgression)s?\b` },
+
+            // Word of Wisdom and the sacrament
+            { pattern: String.raw`\bsacrament wine\b` },
+            { pattern: String.raw`\bwine (?:of|for) the sacrament\b` },
+            { pattern: String.raw`\bnew wine\b` },
+            { pattern: String.raw`\bword of wisdom\b[^.!?]{0,80}\b(?:alcohol|wine|beer|drugs?)\b` },
+            { pattern: String.raw`\b(?:alcohol|wine|beer|drugs?)\b[^.!?]{0,80}\bword of wisdom\b` },
+            { pattern: String.raw`\baddiction recovery\b` },
+
+            // Titles and offices that use "high"
+            { pattern: String.raw`\b(?:most|on|from on|god most) high\b` },
+            { pattern: String.raw`\bhigh (?:priests?|priesthood|council|councilor|places|school|road|and holy)\b` },
+
+            // Church government and sustaining votes
+            { pattern: String.raw`\b(?:sustaining|raise|raising) (?:vote|hands to vote)\b` },
+            { pattern: String.raw`\bgovernment of (?:god|heaven|the church)\b` },
+            { pattern: String.raw`\bkingdom of god\b` }
+        ],
+
+        doctrinalContext: [
+            'christ', 'jesus', 'savior', 'saviour', 'lord', 'god', 'atonement', 'atone', 'resurrection', 'resurrected',
+            'redeem', 'redeemer', 'redemption', 'salvation', 'scripture', 'scriptures', 'prophet', 'apostle',
+            'spirit world', 'spirit prison', 'paradise', 'plan of salvation', 'eternal life', 'immortality',
+            'word of wisdom', 'sacrament', 'temple', 'repent', 'repentance', 'forgive', 'forgiveness',
+            'heal', 'healing', 'comfort', 'grief', 'funeral', 'passed away', 'grace', 'chastity'
+        ],
+
+        contextWindow: 8,
+        contextDampening: 0.25,
+
+        // Longer fields naturally mention more of these words, so their thresholds are higher
+        fieldThresholds: {
+            topic: { low: 0.5, medium: 0.9, high: 1.4 },
+            customTheme: { low: 0.5, medium: 0.9, high: 1.4 },
+            rewriteInstruction: { low: 0.5, medium: 0.9, high: 1.4 },
+            personalStory: { low: 0.8, medium: 1.5, high: 2.5 },
+            aiResponse: { low: 1.0, medium: 2.0, high: 3.0 }
+        }
+    },
+
+    nonChurchSources: [
+        { id: 'non_church_sites', pattern: String.raw`\b(?:wikipedia|google|youtube|facebook|twitter|instagram|amazon|goodreads|deseret\.com|ldsliving\.com)\b` },
+        { id: 'non_church_books', pattern: String.raw`\b(?:book|author|published|isbn|edition)\s+(?:by|from|in)\s+(?!.*church)` },
+        { id: 'non_church_urls', pattern: String.raw`https?:\/\/(?!(?:www\.)?(?:churchofjesuschrist|lds)\.org)[^\s]+` }
+    ],
+
+    doctrinalConcerns: [
+        { id: 'personal_belief_as_doctrine', pattern: String.raw`\bI believe that God\b`, concern: 'Personal belief stated as doctrine' },
+        { id: 'unofficial_doctrine_claim', pattern: String.raw`\b(?:the church teaches that|doctrine states)\b`, concern: 'Unofficial doctrine claim' },
+        { id: 'personal_revelation_claim', pattern: String.raw`\b(?:God told me|I received revelation|the spirit revealed)\b`, concern: 'Personal revelation claim' }
+    ],
+
+    talkContent: [
+        // Church content standards check on saved talks
+        { id: 'standards_political', site: 'content_standards', level: 'warning', message: 'Avoid political content in Church talks', pattern: String.raw`\b(?:politics|political|democrat|republican)\b` },
+        { id: 'standards_controversial', site: 'content_standards', level: 'warning', message: 'Avoid controversial topics', pattern: String.raw`\b(?:controversial|debate|argument)\b` },
+        { id: 'standards_church_policy_opinion', site: 'content_standards', level: 'warning', message: 'Avoid personal opinions about Church policies', pattern: String.raw`\b(?:personal opinion|I think the church|church should)\b` },
+
+        // Validation of newly generated talks
+        { id: 'political', site: 'generated_talk', level: 'warning', message: 'Avoid political content in Church talks', pattern: String.raw`\b(?:democrat|republican|liberal|conservative|politics|political|government|election|vote|voting)\b` },
+        { id: 'controversial', site: 'generated_talk', level: 'warning', message: 'Avoid controversial topics', pattern: String.raw`\b(?:controversial|debate|argument|disagree|conflict|dispute)\b` },
+        { id: 'church_policy_opinion', site: 'generated_talk', level: 'warning', message: 'Avoid personal opinions about Church policies', pattern: String.raw`\b(?:I think the church should|the church needs to|church policy|church leadership should)\b` },
+        { id: 'harm_to_others', site: 'generated_talk', level: 'error', message: 'Potentially harmful content detected', pattern: String.raw`\b(?:hate|violence|harm|hurt|kill|die|death)\s+(?:someone|people|others)\b` },
+        { id: 'criminal_activity', site: 'generated_talk', level: 'error', message: 'Potentially harmful content detected', pattern: String.raw`\b(?:illegal|criminal|crime|steal|theft)\b` }
+    ],
+
+    redactions: [
+        { id: 'ssn', pattern: String.raw`\b\d{3}-\d{2}-\d{4}\b`, flags: 'g', replacement: '[PERSONAL INFO REMOVED]', description: 'Social Security Number' },
+        { id: 'phone_number', pattern: String.raw`\b\d{3}-\d{3}-\d{4}\b`, flags: 'g', replacement: '[PHONE NUMBER REMOVED]', description: 'Phone Number' },
+        { id: 'email_address', pattern: String.raw`\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b`, flags: 'g', replacement: '[EMAIL REMOVED]', description: 'Email Address' },
+        { id: 'sensitive_info', pattern: String.raw`\b(?:password|credit card|bank account|social security)\b[:\s]*[^\s]+`, replacement: '[SENSITIVE INFO REMOVED]', description: 'Sensitive Information' }
+    ]
+}
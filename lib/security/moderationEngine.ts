@@ -0,0 +1,317 @@
+// Moderation engine that runs a versioned rule set.
+// Rule sets are plain data (regex sources, weights and thresholds) so new versions
+// can be stored in the database, dry-run against past violations and activated
+// without a deploy. Every detection in the filter and talk validation goes through here.
+
+import { z } from 'zod'
+import type { SecurityViolation } from './aiContentFilter'
+
+export type ContentField = 'topic' | 'personalStory' | 'customTheme' | 'rewriteInstruction' | 'aiResponse'
+
+export const CONTENT_FIELDS: ContentField[] = ['topic', 'personalStory', 'customTheme', 'rewriteInstruction', 'aiResponse']
+
+// Which checks each field gets. Themes and generated responses aren't free-form
+// instructions, so only their content is checked.
+const FIELD_CHECKS: Record<ContentField, Array<'manipulation' | 'inappropriate' | 'spam'>> = {
+    topic: ['manipulation', 'inappropriate', 'spam'],
+    personalStory: ['manipulation', 'inappropriate', 'spam'],
+    customTheme: ['inappropriate'],
+    rewriteInstruction: ['manipulation', 'inappropriate'],
+    aiResponse: ['inappropriate']
+}
+
+const severitySchema = z.enum(['low', 'medium', 'high', 'critical'])
+
+// A regex stored as its source and flags
+const patternSchema = z.object({
+    pattern: z.string().min(1),
+    flags: z.string().regex(/^[gimsuy]*$/, 'Unsupported regex flags').default('gi')
+}).superRefine((rule, ctx) => {
+    try {
+        new RegExp(rule.pattern, rule.flags)
+    } catch (error) {
+        ctx.addIssue({
+            code: 'custom',
+            message: `Invalid pattern "${rule.pattern}": ${error instanceof Error ? error.message : 'unknown error'}`
+        })
+    }
+})
+
+const thresholdsSchema = z.object({
+    low: z.number().positive(),
+    medium: z.number().positive(),
+    high: z.number().positive()
+})
+
+export const ruleSetDefinitionSchema = z.object({
+    // Attempts to change the assistant's instructions
+    manipulation: z.array(patternSchema.and(z.object({
+        id: z.string(),
+        severity: severitySchema.default('critical')
+    }))),
+
+    // Repetition, contact details and link spam
+    spam: z.array(patternSchema.and(z.object({
+        id: z.string(),
+        severity: severitySchema.default('medium')
+    }))),
+
+    // Scored, context-aware check for content that isn't appropriate in a Church setting
+    inappropriate: z.object({
+        categories: z.array(patternSchema.and(z.object({
+            category: z.string(),
+            weight: z.number().min(0)
+        }))),
+        doctrinalAllowlist: z.array(patternSchema), // Phrases whose terms never count
+        doctrinalContext: z.array(z.string().min(1)), // Words that dampen nearby terms
+        contextWindow: z.number().int().min(0), // Words either side of a term checked for context
+        contextDampening: z.number().min(0).max(1),
+        fieldThresholds: z.object({
+            topic: thresholdsSchema,
+            personalStory: thresholdsSchema,
+            customTheme: thresholdsSchema,
+            rewriteInstruction: thresholdsSchema,
+            aiResponse: thresholdsSchema
+        })
+    }),
+
+    // References to sources outside the Church's sites
+    nonChurchSources: z.array(patternSchema.and(z.object({ id: z.string() }))),
+
+    // Phrasing in generated talks that needs doctrinal review
+    doctrinalConcerns: z.array(patternSchema.and(z.object({
+        id: z.string(),
+        concern: z.string()
+    }))),
+
+    // Checks on generated talks: warnings are surfaced, errors reject the talk.
+    // Each rule belongs to the check that runs it; rules without a site run in both.
+    talkContent: z.array(patternSchema.and(z.object({
+        id: z.string(),
+        site: z.enum(['content_standards', 'generated_talk']).optional(),
+        level: z.enum(['warning', 'error']),
+        message: z.string()
+    }))),
+
+    // Personal information removed from generated talks
+    redactions: z.array(patternSchema.and(z.object({
+        id: z.string(),
+        replacement: z.string(),
+        description: z.string()
+    })))
+})
+
+export type RuleSetDefinition = z.infer<typeof ruleSetDefinitionSchema>
+export type RuleSetDefinitionInput = z.input<typeof ruleSetDefinitionSchema>
+
+export interface ClassifierHit {
+    term: string
+    category: string
+    weight: number // Contribution to the score after allowlist and context adjustments
+    allowlisted: boolean // Part of a curated doctrinal phrase
+    doctrinalContext: boolean // Doctrinal words nearby dampened the weight
+}
+
+export interface ContentClassification {
+    score: number
+    severity: SecurityViolation['severity'] | null // null when the score is under the field's lowest threshold
+    hits: ClassifierHit[]
+}
+
+export type TalkContentSite = 'content_standards' | 'generated_talk'
+
+export interface TalkContentIssue {
+    id: string
+    level: 'warning' | 'error'
+    message: string
+    matches: string[]
+}
+
+// Fresh RegExp per use so global flags never carry lastIndex between calls
+const toRegExp = (rule: { pattern: string; flags: string }): RegExp => new RegExp(rule.pattern, rule.flags)
+
+export class ModerationEngine {
+    readonly version: number
+    readonly definition: RuleSetDefinition
+
+    constructor(version: number, definition: RuleSetDefinitionInput) {
+        this.version = version
+        this.definition = ruleSetDefinitionSchema.parse(definition)
+    }
+
+    /**
+     * Runs the checks that apply to a field (see FIELD_CHECKS)
+     */
+    evaluate(input: string, field: ContentField): SecurityViolation[] {
+        const checks = FIELD_CHECKS[field]
+        return [
+            ...(checks.includes('manipulation') ? this.detectManipulation(input) : []),
+            ...(checks.includes('inappropriate') ? this.detectInappropriate(input, field) : []),
+            ...(checks.includes('spam') ? this.detectSpam(input) : [])
+        ]
+    }
+
+    detectManipulation(input: string): SecurityViolation[] {
+        return this.definition.manipulation.flatMap(rule => {
+            const matches = input.match(toRegExp(rule))
+            return matches ? [this.createViolation({
+                type: 'manipulation_attempt',
+                severity: rule.severity,
+                description: 'Attempt to manipulate AI behavior detected',
+                detectedPattern: matches[0]
+            })] : []
+        })
+    }
+
+    detectSpam(input: string): SecurityViolation[] {
+        return this.definition.spam.flatMap(rule => {
+            const matches = input.match(toRegExp(rule))
+            return matches ? [this.createViolation({
+                type: 'spam',
+                severity: rule.severity,
+                description: 'Spam-like content detected',
+                detectedPattern: matches[0]
+            })] : []
+        })
+    }
+
+    /**
+     * Reports inappropriate content when its score reaches the field's thresholds
+     */
+    detectInappropriate(input: string, field: ContentField): SecurityViolation[] {
+        const classification = this.classify(input, field)
+        if (!classification.severity) {
+            return []
+        }
+
+        return [this.createViolation({
+            type: 'inappropriate_content',
+            severity: classification.severity,
+            description: `Inappropriate content for religious context detected (score ${classification.score})`,
+            detectedPattern: classification.hits.filter(hit => hit.weight > 0).map(hit => hit.term).join(', ')
+        })]
+    }
+
+    /**
+     * Scores content for the given field. Each distinct term counts once, at the
+     * weight of its least suspicious use.
+     */
+    classify(input: string, field: ContentField): ContentClassification {
+        const { categories, contextDampening, fieldThresholds } = this.definition.inappropriate
+        const text = input.toLowerCase()
+        const allowlistedSpans = this.findAllowlistedSpans(text)
+        const words = [...text.matchAll(/[a-z']+/g)].map(match => ({ word: match[0], index: match.index ?? 0 }))
+        const hitsByTerm = new Map<string, ClassifierHit>()
+
+        for (const rule of categories) {
+            for (const match of text.matchAll(toRegExp({ ...rule, flags: withGlobalFlag(rule.flags) }))) {
+                const start = match.index ?? 0
+                const end = start + match[0].length
+                const allowlisted = allowlistedSpans.some(span => start >= span.start && end <= span.end)
+                const doctrinalContext = !allowlisted && this.hasDoctrinalContext(words, start)
+
+                const hit: ClassifierHit = {
+                    term: match[0],
+                    category: rule.category,
+                    weight: allowlisted ? 0 : doctrinalContext ? rule.weight * contextDampening : rule.weight,
+                    allowlisted,
+                    doctrinalContext
+                }
+
+                const existing = hitsByTerm.get(hit.term)
+                if (!existing || hit.weight < existing.weight) {
+                    hitsByTerm.set(hit.term, hit)
+                }
+            }
+        }
+
+        const hits = [...hitsByTerm.values()]
+        const score = Math.round(hits.reduce((sum, hit) => sum + hit.weight, 0) * 100) / 100
+        const thresholds = fieldThresholds[field]
+
+        let severity: ContentClassification['severity'] = null
+        if (score >= thresholds.high) {
+            severity = 'high'
+        } else if (score >= thresholds.medium) {
+            severity = 'medium'
+        } else if (score >= thresholds.low) {
+            severity = 'low'
+        }
+
+        return { score, severity, hits }
+    }
+
+    findNonChurchSources(content: string): string[] {
+        const sources = this.definition.nonChurchSources.flatMap(rule => content.match(toRegExp(rule)) || [])
+        return [...new Set(sources)]
+    }
+
+    findDoctrinalConcerns(content: string): Array<{ concern: string; matches: string[] }> {
+        return this.definition.doctrinalConcerns.flatMap(rule => {
+            const matches = content.match(toRegExp(rule))
+            return matches ? [{ concern: rule.concern, matches: [...matches] }] : []
+        })
+    }
+
+    checkTalkContent(content: string, site: TalkContentSite, level: TalkContentIssue['level']): TalkContentIssue[] {
+        return this.definition.talkContent
+            .filter(rule => rule.level === level && (!rule.site || rule.site === site))
+            .flatMap(rule => {
+                const matches = content.match(toRegExp(rule))
+                return matches ? [{ id: rule.id, level: rule.level, message: rule.message, matches: [...matches] }] : []
+            })
+    }
+
+    /**
+     * Replaces personal information, returning what was removed
+     */
+    redact(content: string): { content: string; removed: string[] } {
+        let redacted = content
+        const removed: string[] = []
+
+        for (const rule of this.definition.redactions) {
+            const matches = redacted.match(toRegExp(rule))
+            if (matches) {
+                removed.push(`${rule.description}: ${matches.length} instance(s)`)
+                redacted = redacted.replace(toRegExp(rule), rule.replacement)
+            }
+        }
+
+        return { content: redacted, removed }
+    }
+
+    private createViolation(violation: Pick<SecurityViolation, 'type' | 'severity' | 'description' | 'detectedPattern'>): SecurityViolation {
+        return {
+            ...violation,
+            timestamp: new Date(),
+            ruleSetVersion: this.version
+        }
+    }
+
+    private findAllowlistedSpans(text: string): Array<{ start: number; end: number }> {
+        return this.definition.inappropriate.doctrinalAllowlist.flatMap(rule =>
+            [...text.matchAll(toRegExp({ ...rule, flags: withGlobalFlag(rule.flags) }))].map(match => {
+                const start = match.index ?? 0
+                return { start, end: start + match[0].length }
+            })
+        )
+    }
+
+    private hasDoctrinalContext(words: Array<{ word: string; index: number }>, termStart: number): boolean {
+        const termIndex = words.findIndex(word => word.index >= termStart)
+        if (termIndex === -1) return false
+
+        const { contextWindow, doctrinalContext } = this.definition.inappropriate
+        const window = words
+            .slice(Math.max(0, termIndex - contextWindow), termIndex + contextWindow + 1)
+            .map(word => word.word)
+            .join(' ')
+
+        return doctrinalContext.some(context => new RegExp(`\\b${escapeRegExp(context.toLowerCase())}\\b`).test(window))
+    }
+}
+
+// matchAll needs the global flag
+const withGlobalFlag = (flags: string): string => flags.includes('g') ? flags : `${flags}g`
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
@@ -0,0 +1,20 @@
+// Role hierarchy shared by the authorization guard and proxy.ts.
+// Each role includes the access of the roles before it.
+
+import { UserRole } from '../types/auth/user'
+
+export const USER_ROLES: UserRole[] = ['user', 'moderator', 'admin']
+
+// Minimum role for pages under /admin
+export const ADMIN_AREA_ROLE: UserRole = 'moderator'
+
+/**
+ * Narrows a stored role string, treating unknown values as a plain user
+ */
+export const toUserRole = (role: string | null | undefined): UserRole => {
+    return USER_ROLES.includes(role as UserRole) ? role as UserRole : 'user'
+}
+
+export const hasRequiredRole = (role: string | null | undefined, requiredRole: UserRole): boolean => {
+    return USER_ROLES.indexOf(toUserRole(role)) >= USER_ROLES.indexOf(requiredRole)
+}
@@ -0,0 +1,47 @@
+import { prisma } from '../db'
+import { ModerationEngine, RuleSetDefinitionInput } from './moderationEngine'
+import { DEFAULT_RULE_SET, DEFAULT_RULE_SET_VERSION } from './defaultRuleSet'
+
+// How long the active rule set is reused before checking the database again
+const ENGINE_CACHE_TTL_MS = 60 * 1000
+
+let cachedEngine: { engine: ModerationEngine; loadedAt: number } | null = null
+
+/**
+ * Returns the engine for the active rule set, falling back to the built-in rules
+ * when none has been activated or the stored one can't be loaded
+ */
+export async function getModerationEngine(): Promise<ModerationEngine> {
+    if (cachedEngine && Date.now() - cachedEngine.loadedAt < ENGINE_CACHE_TTL_MS) {
+        return cachedEngine.engine
+    }
+
+    let engine: ModerationEngine
+    try {
+        const activeRuleSet = await prisma.moderationRuleSet.findFirst({
+            where: { status: 'active' },
+            orderBy: { activatedAt: 'desc' }
+        })
+
+        engine = activeRuleSet
+            ? new ModerationEngine(activeRuleSet.version, activeRuleSet.definition as RuleSetDefinitionInput)
+            : getDefaultModerationEngine()
+    } catch (error) {
+        console.error('Failed to load active moderation rule set, using built-in rules:', error)
+        engine = getDefaultModerationEngine()
+    }
+
+    cachedEngine = { engine, loadedAt: Date.now() }
+    return engine
+}
+
+export function getDefaultModerationEngine(): ModerationEngine {
+    return new ModerationEngine(DEFAULT_RULE_SET_VERSION, DEFAULT_RULE_SET)
+}
+
+/**
+ * Drops the cached engine so the next check picks up a newly activated rule set
+ */
+export function invalidateModerationEngine(): void {
+    cachedEngine = null
+}
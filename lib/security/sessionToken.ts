@@ -0,0 +1,129 @@
+// Signed session cookies. The cookie carries only the Session row id and its expiry,
+// signed with SESSION_SECRET so it can't be forged for another session. Revocation
+// lives in the Session table, so callers still have to check the row.
+// Uses Web Crypto so the same code runs in proxy.ts and server actions.
+
+export const SESSION_COOKIE_NAME = 'session'
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+
+export interface SessionTokenPayload {
+    sessionId: string
+    expiresAt: Date
+}
+
+const encoder = new TextEncoder()
+
+const getSessionSecret = (): string => {
+    const secret = process.env.SESSION_SECRET
+    if (secret) {
+        return secret
+    }
+
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error('SESSION_SECRET must be set in production')
+    }
+
+    // Development fallback so local setups work without extra configuration
+    return 'pulpit-pal-development-session-secret'
+}
+
+const toBase64Url = (bytes: ArrayBuffer): string => {
+    let binary = ''
+    new Uint8Array(bytes).forEach(byte => {
+        binary += String.fromCharCode(byte)
+    })
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const sign = async (value: string): Promise<string> => {
+    const key = await crypto.subtle.importKey(
+        'raw',
+        encoder.encode(getSessionSecret()),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+    )
+    return toBase64Url(await crypto.subtle.sign('HMAC', key, encoder.encode(value)))
+}
+
+// Constant-time comparison so signature checks don't leak timing
+const safeEqual = (a: string, b: string): boolean => {
+    if (a.length !== b.length) return false
+
+    let mismatch = 0
+    for (let i = 0; i < a.length; i++) {
+        mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i)
+    }
+    return mismatch === 0
+}
+
+/**
+ * Builds the cookie value "sessionId.expiresMs.signature"
+ */
+export const signSessionToken = async ({ sessionId, expiresAt }: SessionTokenPayload): Promise<string> => {
+    const payload = `${sessionId}.${expiresAt.getTime()}`
+    return `${payload}.${await sign(payload)}`
+}
+
+/**
+ * Returns the payload of a correctly signed, unexpired token, otherwise null
+ */
+export const verifySessionToken = async (token: string | undefined): Promise<SessionTokenPayload | null> => {
+    if (!token) return null
+
+    const parts = token.split('.')
+    if (parts.length !== 3) return null
+
+    const [sessionId, expiresMs, signature] = parts
+    const expires = Number(expiresMs)
+    if (!sessionId || !Number.isFinite(expires) || Date.now() >= expires) {
+        return null
+    }
+
+    try {
+        const expected = await sign(`${sessionId}.${expiresMs}`)
+        if (!safeEqual(signature, expected)) {
+            return null
+        }
+    } catch (error) {
+        console.error('Session token verification error:', error)
+        return null
+    }
+
+    return { sessionId, expiresAt: new Date(expires) }
+}
+
+/**
+ * Signs a short-lived grant that isn't a session, such as an unlocked share link, as
+ * "id.expiresMs.signature". The purpose is signed too, so one kind of grant can't be
+ * replayed as another or as a session cookie.
+ */
+export const signAccessGrant = async (purpose: string, id: string, expiresAt: Date): Promise<string> => {
+    const payload = `${id}.${expiresAt.getTime()}`
+    return `${payload}.${await sign(`${purpose}:${payload}`)}`
+}
+
+/**
+ * Returns the id of a correctly signed, unexpired grant for the purpose, otherwise null
+ */
+export const verifyAccessGrant = async (purpose: string, token: string | undefined): Promise<string | null> => {
+    if (!token) return null
+
+    const parts = token.split('.')
+    if (parts.length !== 3) return null
+
+    const [id, expiresMs, signature] = parts
+    const expires = Number(expiresMs)
+    if (!id || !Number.isFinite(expires) || Date.now() >= expires) {
+        return null
+    }
+
+    try {
+        const expected = await sign(`${purpose}:${id}.${expiresMs}`)
+        return safeEqual(signature, expected) ? id : null
+    } catch (error) {
+        console.error('Access grant verification error:', error)
+        return null
+    }
+}
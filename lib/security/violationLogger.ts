@@ -18,6 +18,14 @@ export interface SecurityViolationLog {
     lastViolationAt: Date
     createdAt: Date
     userId?: string | null
+    dismissedAt?: Date | null
+    rateLimitClearedAt?: Date | null
+    ruleSetVersion?: number | null
+    appealStatus?: string | null
+    appealNote?: string | null
+    appealedAt?: Date | null
+    appealReviewedAt?: Date | null
+    appealReviewNote?: string | null
 }
 
 export interface RateLimitResult {
@@ -28,18 +36,15 @@ export interface RateLimitResult {
 }
 
 /**
- * Rate limiting configuration based on violation severity
+ * Rate limiting configuration based on violation severity. Low severity is left out:
+ * it marks borderline classifier scores (e.g. a funeral talk mentioning death) that are
+ * logged for moderators but never block, so they shouldn't add up to a lockout either.
  */
 const RATE_LIMIT_CONFIG = {
-    low: {
-        maxViolations: 10,
-        timeWindow: 60, // minutes
-        blockDuration: 15 // minutes
-    },
     medium: {
         maxViolations: 5,
-        timeWindow: 30,
-        blockDuration: 60
+        timeWindow: 30, // minutes
+        blockDuration: 60 // minutes
     },
     high: {
         maxViolations: 3,
@@ -109,6 +114,7 @@ export async function logSecurityViolation(
                     userAgent,
                     sessionId,
                     userId: userId || null,
+                    ruleSetVersion: violation.ruleSetVersion ?? null,
                     violationCount: 1,
                     lastViolationAt: new Date()
                 }
@@ -148,13 +154,18 @@ export async function checkRateLimit(
         // Build where clause for user identification
         const whereClause: {
             createdAt: { gte: Date }
+            dismissedAt: null
+            rateLimitClearedAt: null
             userId?: string
             ipAddress?: string
             sessionId?: string
         } = {
             createdAt: {
                 gte: new Date(Date.now() - 24 * 60 * 60 * 1000) // Last 24 hours
-            }
+            },
+            // Dismissed false positives and blocks lifted by a moderator don't count
+            dismissedAt: null,
+            rateLimitClearedAt: null
         }
 
         // Prioritize user ID, then IP address, then session ID
@@ -227,180 +238,6 @@ export async function checkRateLimit(
     }
 }
 
-/**
- * Gets security violation statistics for monitoring
- */
-export async function getViolationStatistics(
-    timeRange: 'hour' | 'day' | 'week' | 'month' = 'day'
-): Promise<{
-    success: boolean
-    statistics?: {
-        totalViolations: number
-        violationsByType: Record<string, number>
-        violationsBySeverity: Record<string, number>
-        uniqueUsers: number
-        uniqueIPs: number
-        topPatterns: Array<{ pattern: string; count: number }>
-    }
-    error?: string
-}> {
-    try {
-        // Calculate time range
-        const timeRangeMs = {
-            hour: 60 * 60 * 1000,
-            day: 24 * 60 * 60 * 1000,
-            week: 7 * 24 * 60 * 60 * 1000,
-            month: 30 * 24 * 60 * 60 * 1000
-        }
-
-        const startTime = new Date(Date.now() - timeRangeMs[timeRange])
-
-        // Get violations within time range
-        const violations = await prisma.securityViolation.findMany({
-            where: {
-                createdAt: { gte: startTime }
-            },
-            select: {
-                type: true,
-                severity: true,
-                detectedPattern: true,
-                violationCount: true,
-                userId: true,
-                ipAddress: true
-            }
-        })
-
-        // Calculate statistics
-        const totalViolations = violations.reduce((sum, v) => sum + v.violationCount, 0)
-
-        const violationsByType: Record<string, number> = {}
-        const violationsBySeverity: Record<string, number> = {}
-        const patternCounts: Record<string, number> = {}
-        const uniqueUsers = new Set<string>()
-        const uniqueIPs = new Set<string>()
-
-        for (const violation of violations) {
-            // Count by type
-            violationsByType[violation.type] = (violationsByType[violation.type] || 0) + violation.violationCount
-
-            // Count by severity
-            violationsBySeverity[violation.severity] = (violationsBySeverity[violation.severity] || 0) + violation.violationCount
-
-            // Count patterns
-            patternCounts[violation.detectedPattern] = (patternCounts[violation.detectedPattern] || 0) + violation.violationCount
-
-            // Track unique users and IPs
-            if (violation.userId) uniqueUsers.add(violation.userId)
-            if (violation.ipAddress) uniqueIPs.add(violation.ipAddress)
-        }
-
-        // Get top patterns
-        const topPatterns = Object.entries(patternCounts)
-            .sort(([, a], [, b]) => b - a)
-            .slice(0, 10)
-            .map(([pattern, count]) => ({ pattern, count }))
-
-        return {
-            success: true,
-            statistics: {
-                totalViolations,
-                violationsByType,
-                violationsBySeverity,
-                uniqueUsers: uniqueUsers.size,
-                uniqueIPs: uniqueIPs.size,
-                topPatterns
-            }
-        }
-    } catch (error) {
-        console.error('Failed to get violation statistics:', error)
-        return {
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown error'
-        }
-    }
-}
-
-/**
- * Gets violation history for a specific user
- */
-export async function getUserViolationHistory(
-    userId: string,
-    limit: number = 50
-): Promise<{
-    success: boolean
-    violations?: SecurityViolationLog[]
-    error?: string
-}> {
-    try {
-        const violations = await prisma.securityViolation.findMany({
-            where: { userId },
-            orderBy: { createdAt: 'desc' },
-            take: limit,
-            select: {
-                id: true,
-                type: true,
-                severity: true,
-                description: true,
-                detectedPattern: true,
-                userInput: true,
-                ipAddress: true,
-                userAgent: true,
-                sessionId: true,
-                violationCount: true,
-                lastViolationAt: true,
-                createdAt: true,
-                userId: true
-            }
-        })
-
-        return {
-            success: true,
-            violations: violations as SecurityViolationLog[]
-        }
-    } catch (error) {
-        console.error('Failed to get user violation history:', error)
-        return {
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown error'
-        }
-    }
-}
-
-/**
- * Cleans up old violation records (for maintenance)
- */
-export async function cleanupOldViolations(
-    olderThanDays: number = 90
-): Promise<{
-    success: boolean
-    deletedCount?: number
-    error?: string
-}> {
-    try {
-        const cutoffDate = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000)
-
-        const result = await prisma.securityViolation.deleteMany({
-            where: {
-                createdAt: { lt: cutoffDate },
-                severity: { in: ['low', 'medium'] } // Keep high and critical violations longer
-            }
-        })
-
-        console.log(`Cleaned up ${result.count} old security violations`)
-
-        return {
-            success: true,
-            deletedCount: result.count
-        }
-    } catch (error) {
-        console.error('Failed to cleanup old violations:', error)
-        return {
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown error'
-        }
-    }
-}
-
 /**
  * Extracts client IP address from headers
  */
@@ -459,6 +296,8 @@ export async function logSecurityViolationWithContext(
         )
 
         if (result.success && result.violationId) {
+            // Lets callers point the user at the logged row, e.g. to appeal it
+            violation.violationId = result.violationId
             loggedViolations.push(result.violationId)
         } else {
             errors.push(result.error || 'Unknown error')
@@ -482,66 +321,3 @@ export async function logSecurityViolationWithContext(
         errors
     }
 }
-
-/**
- * Get recent security violations for debugging (admin only)
- */
-export async function getRecentViolations(limit: number = 10): Promise<SecurityViolationLog[]> {
-    try {
-        const violations = await prisma.securityViolation.findMany({
-            orderBy: { createdAt: 'desc' },
-            take: limit,
-            select: {
-                id: true,
-                type: true,
-                severity: true,
-                description: true,
-                detectedPattern: true,
-                userInput: true,
-                ipAddress: true,
-                userAgent: true,
-                sessionId: true,
-                violationCount: true,
-                lastViolationAt: true,
-                createdAt: true,
-                userId: true
-            }
-        })
-
-        return violations
-    } catch (error) {
-        console.error('Failed to get recent violations:', error)
-        return []
-    }
-}
-
-/**
- * Get violation details by ID for debugging
- */
-export async function getViolationById(id: string): Promise<SecurityViolationLog | null> {
-    try {
-        const violation = await prisma.securityViolation.findUnique({
-            where: { id },
-            select: {
-                id: true,
-                type: true,
-                severity: true,
-                description: true,
-                detectedPattern: true,
-                userInput: true,
-                ipAddress: true,
-                userAgent: true,
-                sessionId: true,
-                violationCount: true,
-                lastViolationAt: true,
-                createdAt: true,
-                userId: true
-            }
-        })
-
-        return violation
-    } catch (error) {
-        console.error('Failed to get violation by ID:', error)
-        return null
-    }
-}
\ No newline at end of file
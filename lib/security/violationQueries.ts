@@ -0,0 +1,506 @@
+// Moderation reads and cleanup over security violations. This is deliberately not a
+// 'use server' module: the results include other users' inputs and emails, so they are only
+// reachable through the role-checked actions in lib/actions/moderation.ts and the admin-only
+// debug API, or scoped to the signed-in user by their caller.
+
+import { prisma } from '../db'
+import type { SecurityViolationLog } from './violationLogger'
+import type { ViolationTimeRange, ViolationTimelineBucket, ViolatingUserSummary } from '../types/moderation/dashboard'
+
+/**
+ * Length of each statistics time range, and the bucket size used for its timeline
+ */
+export const TIME_RANGE_MS: Record<ViolationTimeRange, number> = {
+    hour: 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+    month: 30 * 24 * 60 * 60 * 1000
+}
+
+const TIMELINE_BUCKET_MS: Record<ViolationTimeRange, number> = {
+    hour: 5 * 60 * 1000, // 12 buckets
+    day: 60 * 60 * 1000, // 24 buckets
+    week: 24 * 60 * 60 * 1000, // 7 buckets
+    month: 24 * 60 * 60 * 1000 // 30 buckets
+}
+
+const SEVERITY_ORDER = ['low', 'medium', 'high', 'critical']
+
+/**
+ * Gets violation counts by type and severity in evenly sized buckets across the time range
+ */
+export async function getViolationTimeline(
+    timeRange: ViolationTimeRange = 'day'
+): Promise<{
+    success: boolean
+    timeline?: ViolationTimelineBucket[]
+    error?: string
+}> {
+    try {
+        const bucketMs = TIMELINE_BUCKET_MS[timeRange]
+        const bucketCount = Math.round(TIME_RANGE_MS[timeRange] / bucketMs)
+
+        // Align the last bucket with the current bucket boundary
+        const end = Math.floor(Date.now() / bucketMs) * bucketMs + bucketMs
+        const start = end - bucketCount * bucketMs
+
+        const timeline: ViolationTimelineBucket[] = Array.from({ length: bucketCount }, (_, index) => ({
+            start: new Date(start + index * bucketMs),
+            total: 0,
+            byType: {},
+            bySeverity: {}
+        }))
+
+        const violations = await prisma.securityViolation.findMany({
+            where: {
+                createdAt: { gte: new Date(start) },
+                dismissedAt: null
+            },
+            select: {
+                type: true,
+                severity: true,
+                violationCount: true,
+                createdAt: true
+            }
+        })
+
+        for (const violation of violations) {
+            const bucket = timeline[Math.floor((violation.createdAt.getTime() - start) / bucketMs)]
+            if (!bucket) continue
+
+            bucket.total += violation.violationCount
+            bucket.byType[violation.type] = (bucket.byType[violation.type] || 0) + violation.violationCount
+            bucket.bySeverity[violation.severity] = (bucket.bySeverity[violation.severity] || 0) + violation.violationCount
+        }
+
+        return {
+            success: true,
+            timeline
+        }
+    } catch (error) {
+        console.error('Failed to get violation timeline:', error)
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        }
+    }
+}
+
+/**
+ * Gets the signed-in users with the most violations in the time range
+ */
+export async function getTopViolatingUsers(
+    timeRange: ViolationTimeRange = 'week',
+    limit: number = 10
+): Promise<{
+    success: boolean
+    users?: ViolatingUserSummary[]
+    error?: string
+}> {
+    try {
+        const violations = await prisma.securityViolation.findMany({
+            where: {
+                createdAt: { gte: new Date(Date.now() - TIME_RANGE_MS[timeRange]) },
+                dismissedAt: null,
+                userId: { not: null }
+            },
+            select: {
+                severity: true,
+                violationCount: true,
+                lastViolationAt: true,
+                user: {
+                    select: {
+                        id: true,
+                        email: true,
+                        firstName: true,
+                        lastName: true,
+                        bannedAt: true
+                    }
+                }
+            }
+        })
+
+        const summaries = new Map<string, ViolatingUserSummary>()
+
+        for (const violation of violations) {
+            if (!violation.user) continue
+
+            const summary = summaries.get(violation.user.id) || {
+                userId: violation.user.id,
+                email: violation.user.email,
+                firstName: violation.user.firstName,
+                lastName: violation.user.lastName,
+                bannedAt: violation.user.bannedAt,
+                violationCount: 0,
+                highestSeverity: violation.severity,
+                lastViolationAt: violation.lastViolationAt
+            }
+
+            summary.violationCount += violation.violationCount
+            if (SEVERITY_ORDER.indexOf(violation.severity) > SEVERITY_ORDER.indexOf(summary.highestSeverity)) {
+                summary.highestSeverity = violation.severity
+            }
+            if (violation.lastViolationAt > summary.lastViolationAt) {
+                summary.lastViolationAt = violation.lastViolationAt
+            }
+
+            summaries.set(summary.userId, summary)
+        }
+
+        const users = [...summaries.values()]
+            .sort((a, b) => b.violationCount - a.violationCount)
+            .slice(0, limit)
+
+        return {
+            success: true,
+            users
+        }
+    } catch (error) {
+        console.error('Failed to get top violating users:', error)
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        }
+    }
+}
+
+/**
+ * Gets appealed violations with the given status, oldest appeal first
+ */
+export async function getAppealedViolations(
+    status: 'pending' | 'upheld' | 'overturned',
+    limit: number = 50
+): Promise<SecurityViolationLog[]> {
+    try {
+        return await prisma.securityViolation.findMany({
+            where: { appealStatus: status },
+            orderBy: { appealedAt: 'asc' },
+            take: limit,
+            select: {
+                id: true,
+                type: true,
+                severity: true,
+                description: true,
+                detectedPattern: true,
+                userInput: true,
+                ipAddress: true,
+                userAgent: true,
+                sessionId: true,
+                violationCount: true,
+                lastViolationAt: true,
+                createdAt: true,
+                userId: true,
+                dismissedAt: true,
+                rateLimitClearedAt: true,
+                ruleSetVersion: true,
+                appealStatus: true,
+                appealNote: true,
+                appealedAt: true,
+                appealReviewedAt: true,
+                appealReviewNote: true
+            }
+        })
+    } catch (error) {
+        console.error('Failed to get appealed violations:', error)
+        return []
+    }
+}
+
+/**
+ * Gets the violations currently counting toward a user's rate limit, newest first
+ */
+export async function getActiveUserViolations(userId: string): Promise<SecurityViolationLog[]> {
+    try {
+        return await prisma.securityViolation.findMany({
+            where: {
+                userId,
+                createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) }, // Same window as checkRateLimit
+                dismissedAt: null,
+                rateLimitClearedAt: null
+            },
+            orderBy: { createdAt: 'desc' },
+            take: 10,
+            select: {
+                id: true,
+                type: true,
+                severity: true,
+                description: true,
+                detectedPattern: true,
+                userInput: true,
+                ipAddress: true,
+                userAgent: true,
+                sessionId: true,
+                violationCount: true,
+                lastViolationAt: true,
+                createdAt: true,
+                userId: true,
+                dismissedAt: true,
+                rateLimitClearedAt: true,
+                ruleSetVersion: true,
+                appealStatus: true,
+                appealNote: true,
+                appealedAt: true,
+                appealReviewedAt: true,
+                appealReviewNote: true
+            }
+        })
+    } catch (error) {
+        console.error('Failed to get active user violations:', error)
+        return []
+    }
+}
+
+/**
+ * Gets security violation statistics for monitoring
+ */
+export async function getViolationStatistics(
+    timeRange: ViolationTimeRange = 'day'
+): Promise<{
+    success: boolean
+    statistics?: {
+        totalViolations: number
+        violationsByType: Record<string, number>
+        violationsBySeverity: Record<string, number>
+        uniqueUsers: number
+        uniqueIPs: number
+        topPatterns: Array<{ pattern: string; count: number }>
+    }
+    error?: string
+}> {
+    try {
+        // Calculate time range
+        const startTime = new Date(Date.now() - TIME_RANGE_MS[timeRange])
+
+        // Get violations within time range, leaving out dismissed false positives
+        const violations = await prisma.securityViolation.findMany({
+            where: {
+                createdAt: { gte: startTime },
+                dismissedAt: null
+            },
+            select: {
+                type: true,
+                severity: true,
+                detectedPattern: true,
+                violationCount: true,
+                userId: true,
+                ipAddress: true
+            }
+        })
+
+        // Calculate statistics
+        const totalViolations = violations.reduce((sum, v) => sum + v.violationCount, 0)
+
+        const violationsByType: Record<string, number> = {}
+        const violationsBySeverity: Record<string, number> = {}
+        const patternCounts: Record<string, number> = {}
+        const uniqueUsers = new Set<string>()
+        const uniqueIPs = new Set<string>()
+
+        for (const violation of violations) {
+            // Count by type
+            violationsByType[violation.type] = (violationsByType[violation.type] || 0) + violation.violationCount
+
+            // Count by severity
+            violationsBySeverity[violation.severity] = (violationsBySeverity[violation.severity] || 0) + violation.violationCount
+
+            // Count patterns
+            patternCounts[violation.detectedPattern] = (patternCounts[violation.detectedPattern] || 0) + violation.violationCount
+
+            // Track unique users and IPs
+            if (violation.userId) uniqueUsers.add(violation.userId)
+            if (violation.ipAddress) uniqueIPs.add(violation.ipAddress)
+        }
+
+        // Get top patterns
+        const topPatterns = Object.entries(patternCounts)
+            .sort(([, a], [, b]) => b - a)
+            .slice(0, 10)
+            .map(([pattern, count]) => ({ pattern, count }))
+
+        return {
+            success: true,
+            statistics: {
+                totalViolations,
+                violationsByType,
+                violationsBySeverity,
+                uniqueUsers: uniqueUsers.size,
+                uniqueIPs: uniqueIPs.size,
+                topPatterns
+            }
+        }
+    } catch (error) {
+        console.error('Failed to get violation statistics:', error)
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        }
+    }
+}
+
+/**
+ * Gets violation history for a specific user
+ */
+export async function getUserViolationHistory(
+    userId: string,
+    limit: number = 50
+): Promise<{
+    success: boolean
+    violations?: SecurityViolationLog[]
+    error?: string
+}> {
+    try {
+        const violations = await prisma.securityViolation.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'desc' },
+            take: limit,
+            select: {
+                id: true,
+                type: true,
+                severity: true,
+                description: true,
+                detectedPattern: true,
+                userInput: true,
+                ipAddress: true,
+                userAgent: true,
+                sessionId: true,
+                violationCount: true,
+                lastViolationAt: true,
+                createdAt: true,
+                userId: true,
+                dismissedAt: true,
+                rateLimitClearedAt: true,
+                ruleSetVersion: true,
+                appealStatus: true,
+                appealNote: true,
+                appealedAt: true,
+                appealReviewedAt: true,
+                appealReviewNote: true
+            }
+        })
+
+        return {
+            success: true,
+            violations: violations as SecurityViolationLog[]
+        }
+    } catch (error) {
+        console.error('Failed to get user violation history:', error)
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        }
+    }
+}
+
+/**
+ * Cleans up old violation records (for maintenance)
+ */
+export async function cleanupOldViolations(
+    olderThanDays: number = 90
+): Promise<{
+    success: boolean
+    deletedCount?: number
+    error?: string
+}> {
+    try {
+        const cutoffDate = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000)
+
+        const result = await prisma.securityViolation.deleteMany({
+            where: {
+                createdAt: { lt: cutoffDate },
+                severity: { in: ['low', 'medium'] } // Keep high and critical violations longer
+            }
+        })
+
+        console.log(`Cleaned up ${result.count} old security violations`)
+
+        return {
+            success: true,
+            deletedCount: result.count
+        }
+    } catch (error) {
+        console.error('Failed to cleanup old violations:', error)
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        }
+    }
+}
+
+/**
+ * Get recent security violations for debugging (admin only)
+ */
+export async function getRecentViolations(limit: number = 10): Promise<SecurityViolationLog[]> {
+    try {
+        const violations = await prisma.securityViolation.findMany({
+            orderBy: { createdAt: 'desc' },
+            take: limit,
+            select: {
+                id: true,
+                type: true,
+                severity: true,
+                description: true,
+                detectedPattern: true,
+                userInput: true,
+                ipAddress: true,
+                userAgent: true,
+                sessionId: true,
+                violationCount: true,
+                lastViolationAt: true,
+                createdAt: true,
+                userId: true,
+                dismissedAt: true,
+                rateLimitClearedAt: true,
+                ruleSetVersion: true,
+                appealStatus: true,
+                appealNote: true,
+                appealedAt: true,
+                appealReviewedAt: true,
+                appealReviewNote: true
+            }
+        })
+
+        return violations
+    } catch (error) {
+        console.error('Failed to get recent violations:', error)
+        return []
+    }
+}
+
+/**
+ * Get violation details by ID for debugging
+ */
+export async function getViolationById(id: string): Promise<SecurityViolationLog | null> {
+    try {
+        const violation = await prisma.securityViolation.findUnique({
+            where: { id },
+            select: {
+                id: true,
+                type: true,
+                severity: true,
+                description: true,
+                detectedPattern: true,
+                userInput: true,
+                ipAddress: true,
+                userAgent: true,
+                sessionId: true,
+                violationCount: true,
+                lastViolationAt: true,
+                createdAt: true,
+                userId: true,
+                dismissedAt: true,
+                rateLimitClearedAt: true,
+                ruleSetVersion: true,
+                appealStatus: true,
+                appealNote: true,
+                appealedAt: true,
+                appealReviewedAt: true,
+                appealReviewNote: true
+            }
+        })
+
+        return violation
+    } catch (error) {
+        console.error('Failed to get violation by ID:', error)
+        return null
+    }
+}
@@ -134,6 +134,106 @@ class EmailService {
  return { subject, html, text };
  }
 
+ private escapeHtml(value: string): string {
+ return value
+ .replace(/&/g, '&amp;')
+ .replace(/</g, '&lt;')
+ .replace(/>/g, '&gt;')
+ .replace(/"/g, '&quot;')
+ .replace(/'/g, '&#39;');
+ }
+
+ getNotificationTemplate(firstName: string, notification: { title: string; body?: string }, url: string): EmailTemplate {
+ const subject = notification.title;
+ const title = this.escapeHtml(notification.title);
+ const body = notification.body ? this.escapeHtml(notification.body) : '';
+
+ const html = `
+ <!DOCTYPE html>
+ <html>
+ <head>
+ <meta charset="utf-8">
+ <meta name="viewport" content="width=device-width, initial-scale=1.0">
+ <title>${title}</title>
+ <style>
+ body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+ .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+ .header { background-color: #f8f9fa; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+ .content { background-color: #ffffff; padding: 30px; border: 1px solid #e9ecef; }
+ .footer { background-color: #f8f9fa; padding: 15px; text-align: center; border-radius: 0 0 8px 8px; font-size: 12px; color: #6c757d; }
+ .button { display: inline-block; padding: 12px 24px; background-color: #007bff; color: white; text-decoration: none; border-radius: 4px; margin: 20px 0; }
+ .quote { background-color: #f8f9fa; padding: 15px; border-radius: 4px; white-space: pre-line; }
+ </style>
+ </head>
+ <body>
+ <div class="container">
+ <div class="header">
+ <h1>Pulpit Pal</h1>
+ </div>
+ <div class="content">
+ <p>Hello ${this.escapeHtml(firstName)},</p>
+ <h2>${title}</h2>
+ ${body ? `<div class="quote">${body}</div>` : ''}
+ 
+ <div style="text-align: center;">
+ <a href="${url}" class="button">Open Pulpit Pal</a>
+ </div>
+ </div>
+ <div class="footer">
+ <p>You're receiving this because you turned on email for this kind of notification. You can turn it off in your account settings.</p>
+ </div>
+ </div>
+ </body>
+ </html>
+ `;
+
+ const text = `
+ Pulpit Pal
+ 
+ Hello ${firstName},
+ 
+ ${notification.title}
+ ${notification.body ? `\n ${notification.body}\n` : ''}
+ Open Pulpit Pal: ${url}
+ 
+ You're receiving this because you turned on email for this kind of notification. You can turn it off in your account settings.
+ `;
+
+ return { subject, html, text };
+ }
+
+ async sendNotification(email: string, firstName: string, notification: { title: string; body?: string; link?: string }): Promise<void> {
+ const url = `${process.env.NEXTAUTH_URL || 'http://localhost:3000'}${notification.link || '/notifications'}`;
+ const template = this.getNotificationTemplate(firstName, notification, url);
+
+ if (this.config.mode === 'development') {
+ // In development, log to console
+ console.log('\n=== NOTIFICATION EMAIL ===');
+ console.log(`To: ${email}`);
+ console.log(`Subject: ${template.subject}`);
+ console.log(`Link: ${url}`);
+ console.log('==========================\n');
+ return;
+ }
+
+ if (!this.transporter) {
+ throw new Error('Email service not configured for production mode');
+ }
+
+ try {
+ await this.transporter.sendMail({
+ from: process.env.SMTP_FROM || process.env.SMTP_USER,
+ to: email,
+ subject: template.subject,
+ html: template.html,
+ text: template.text
+ });
+ } catch (error) {
+ console.error('Failed to send notification email:', error);
+ throw new Error('Failed to send notification email');
+ }
+ }
+
  async sendPasswordReset(email: string, token: string, firstName: string): Promise<void> {
  const resetUrl = `${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/auth/reset-password?token=${token}`;
  const template = this.getPasswordResetTemplate(resetUrl, firstName);
@@ -0,0 +1,443 @@
+// LLM provider abstraction
+// Talk generation talks to a provider through this interface so the backing
+// model can be switched by configuration (xAI, any OpenAI-compatible endpoint,
+// or a deterministic local mock for development and tests).
+
+export type LLMProviderName = 'xai' | 'openai-compatible' | 'mock'
+
+export interface LLMMessage {
+    role: 'system' | 'user' | 'assistant'
+    content: string
+}
+
+export interface LLMCompletionOptions {
+    maxTokens?: number
+    temperature?: number
+    responseFormat?: 'text' | 'json' // 'json' asks the provider for a single JSON object
+}
+
+export interface LLMCompletionResult {
+    success: boolean
+    content?: string
+    error?: string
+    status?: number // HTTP status of a failed request, used to decide whether to retry
+    usage?: {
+        prompt_tokens: number
+        completion_tokens: number
+        total_tokens: number
+    }
+}
+
+export interface LLMProvider {
+    readonly name: LLMProviderName
+    readonly model: string
+    /**
+     * Returns an error message when the provider is missing required configuration
+     */
+    getConfigurationError(): string | null
+    complete(messages: LLMMessage[], options?: LLMCompletionOptions): Promise<LLMCompletionResult>
+    /**
+     * Streams the completion, calling onToken with each text delta as it arrives.
+     * Resolves with the full content once the stream ends.
+     */
+    stream(messages: LLMMessage[], onToken: (text: string) => void, options?: LLMCompletionOptions): Promise<LLMCompletionResult>
+}
+
+interface OpenAICompatibleConfig {
+    name: LLMProviderName
+    baseUrl: string
+    apiKey?: string
+    apiKeyEnvVar: string
+    model: string
+}
+
+/**
+ * Provider for any endpoint implementing the OpenAI chat completions API.
+ * xAI is served through this class with its own defaults.
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+    readonly name: LLMProviderName
+    readonly model: string
+    private readonly baseUrl: string
+    private readonly apiKey?: string
+    private readonly apiKeyEnvVar: string
+
+    constructor(config: OpenAICompatibleConfig) {
+        this.name = config.name
+        this.model = config.model
+        this.baseUrl = config.baseUrl.replace(/\/+$/, '')
+        this.apiKey = config.apiKey
+        this.apiKeyEnvVar = config.apiKeyEnvVar
+    }
+
+    getConfigurationError(): string | null {
+        if (!this.baseUrl) {
+            return 'LLM base URL is not configured. Please set LLM_BASE_URL environment variable.'
+        }
+
+        // Self-hosted OpenAI-compatible servers often run without authentication
+        if (this.name === 'xai' && !this.apiKey) {
+            return `XAI API key is not configured. Please set ${this.apiKeyEnvVar} environment variable.`
+        }
+
+        return null
+    }
+
+    async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<LLMCompletionResult> {
+        try {
+            const response = await this.sendRequest(messages, options, false)
+            if (!response.ok) {
+                return await this.toErrorResult(response)
+            }
+
+            const result = await response.json()
+            const content = result.choices?.[0]?.message?.content?.trim()
+
+            if (!content) {
+                return {
+                    success: false,
+                    error: `No content received from ${this.name} API`
+                }
+            }
+
+            return {
+                success: true,
+                content,
+                usage: result.usage
+            }
+        } catch (error) {
+            console.error(`${this.name} API call failed:`, error)
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            }
+        }
+    }
+
+    async stream(messages: LLMMessage[], onToken: (text: string) => void, options: LLMCompletionOptions = {}): Promise<LLMCompletionResult> {
+        try {
+            const response = await this.sendRequest(messages, options, true)
+            if (!response.ok) {
+                return await this.toErrorResult(response)
+            }
+
+            if (!response.body) {
+                return {
+                    success: false,
+                    error: `No response stream received from ${this.name} API`
+                }
+            }
+
+            // Server-sent events: one "data: {json}" line per delta, terminated by "data: [DONE]"
+            const reader = response.body.getReader()
+            const decoder = new TextDecoder()
+            let buffer = ''
+            let content = ''
+            let usage: LLMCompletionResult['usage']
+
+            while (true) {
+                const { done, value } = await reader.read()
+                if (done) break
+
+                buffer += decoder.decode(value, { stream: true })
+                const lines = buffer.split('\n')
+                buffer = lines.pop() || ''
+
+                for (const line of lines) {
+                    const trimmed = line.trim()
+                    if (!trimmed.startsWith('data:')) continue
+
+                    const data = trimmed.slice('data:'.length).trim()
+                    if (!data || data === '[DONE]') continue
+
+                    try {
+                        const chunk = JSON.parse(data)
+                        const delta = chunk.choices?.[0]?.delta?.content
+                        if (delta) {
+                            content += delta
+                            onToken(delta)
+                        }
+                        if (chunk.usage) {
+                            usage = chunk.usage
+                        }
+                    } catch {
+                        console.warn(`Skipping malformed ${this.name} stream chunk`)
+                    }
+                }
+            }
+
+            if (!content.trim()) {
+                return {
+                    success: false,
+                    error: `No content received from ${this.name} API`
+                }
+            }
+
+            return {
+                success: true,
+                content: content.trim(),
+                usage
+            }
+        } catch (error) {
+            console.error(`${this.name} API stream failed:`, error)
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            }
+        }
+    }
+
+    private async sendRequest(messages: LLMMessage[], options: LLMCompletionOptions, stream: boolean): Promise<Response> {
+        const { maxTokens = 4000, temperature = 0.7, responseFormat = 'text' } = options
+
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+        }
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`
+        }
+
+        return fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                messages,
+                model: this.model,
+                stream,
+                temperature,
+                max_tokens: maxTokens,
+                ...(responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+            }),
+        })
+    }
+
+    private async toErrorResult(response: Response): Promise<LLMCompletionResult> {
+        const errorText = await response.text()
+        console.error(`${this.name} API error ${response.status}:`, errorText)
+        return {
+            success: false,
+            status: response.status,
+            error: `${this.name} API error: ${response.status} - ${errorText}`
+        }
+    }
+}
+
+/**
+ * Deterministic offline provider. It reads the generation prompt and builds a
+ * plain-text talk from it, so the whole generation pipeline (validation,
+ * source extraction, saving) can run without network access or an API key.
+ */
+class MockLLMProvider implements LLMProvider {
+    readonly name: LLMProviderName = 'mock'
+    readonly model = 'mock-talk-writer'
+
+    getConfigurationError(): string | null {
+        return null
+    }
+
+    async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<LLMCompletionResult> {
+        const prompt = messages
+            .filter(message => message.role === 'user')
+            .map(message => message.content)
+            .join('\n\n')
+
+        let content: string
+        if (prompt.includes('PASSAGE TO REWRITE:')) {
+            content = buildMockRewrite(prompt, options.responseFormat === 'json')
+        } else if (prompt.includes('TALK BODY TO RETIME:')) {
+            content = buildMockRetime(prompt, options.responseFormat === 'json')
+        } else {
+            content = buildMockTalkContent(prompt, options)
+        }
+        const promptTokens = estimateTokens(messages.map(message => message.content).join(' '))
+        const completionTokens = estimateTokens(content)
+
+        return {
+            success: true,
+            content,
+            usage: {
+                prompt_tokens: promptTokens,
+                completion_tokens: completionTokens,
+                total_tokens: promptTokens + completionTokens
+            }
+        }
+    }
+
+    async stream(messages: LLMMessage[], onToken: (text: string) => void, options: LLMCompletionOptions = {}): Promise<LLMCompletionResult> {
+        const result = await this.complete(messages, options)
+        const chunks = result.content!.match(/\S+\s*/g) || []
+
+        // Emit a few words at a time with a short pause so streaming UIs have something to show
+        for (let i = 0; i < chunks.length; i += MOCK_STREAM_WORDS_PER_CHUNK) {
+            onToken(chunks.slice(i, i + MOCK_STREAM_WORDS_PER_CHUNK).join(''))
+            await new Promise(resolve => setTimeout(resolve, MOCK_STREAM_DELAY_MS))
+        }
+
+        return result
+    }
+}
+
+const MOCK_STREAM_WORDS_PER_CHUNK = 6
+const MOCK_STREAM_DELAY_MS = 10
+
+const MOCK_BODY_PARAGRAPHS = [
+    'When I was asked to speak about {topic}, I began by reading the scriptures and the words of living prophets. I have learned that the Lord teaches us line upon line, and as I studied I felt the quiet assurance that this principle matters in my own life.',
+    'The Savior invites each of us to come unto Him. As I have pondered {topic}, I have come to see that it is not an abstract idea but an invitation to follow Jesus Christ more closely, one small and simple choice at a time.',
+    'Our prophets have taught that the gospel is meant to be lived at home and strengthened at church. I believe that as we apply {topic} in our families, our homes become places where the Spirit can dwell and where our children can feel the love of their Heavenly Father.',
+    'I have seen this principle at work in the lives of the people around me. Quiet acts of faith, patient service, and sincere prayer have blessed our ward in ways that are often unseen. I know that the Lord notices every effort we make to follow Him.',
+    'The Book of Mormon teaches that by small and simple things are great things brought to pass. As I have tried to live {topic} more fully, I have felt the Lord lift me, guide me, and help me become a little more like His Son.',
+    'Let me invite each of us to consider one way we can apply {topic} this week. Perhaps it is a prayer offered with more sincerity, a scripture read with more attention, or a neighbor served with more kindness. As we act, I know the Lord will bless us.'
+]
+
+const MOCK_REWRITE_LEAD_IN = 'As I have pondered this more carefully, I have come to see it in a new light.'
+
+const MOCK_CLOSING_TESTIMONY = 'I know that my Heavenly Father loves me and that Jesus Christ is my Savior. I am grateful for the restored gospel and for the peace it brings to my life.'
+
+interface MockTalk {
+    title: string
+    paragraphs: string[]
+    testimony: string
+    sources: Array<{ title: string; url: string }>
+}
+
+/**
+ * Builds a deterministic talk from the generation prompt
+ */
+function buildMockTalk(prompt: string, maxTokens: number): MockTalk {
+    const topic = prompt.match(/talk on "([^"]+)"/)?.[1]?.trim() || 'the gospel of Jesus Christ'
+    const duration = parseInt(prompt.match(/Generate a FULL (\d+)-minute/)?.[1] || '10', 10)
+    const testimony = prompt.match(/Testimony text:\n"([\s\S]*?)"(?:\n|$)/)?.[1]?.trim() || MOCK_CLOSING_TESTIMONY
+    const links = [...prompt.matchAll(/^- (https:\/\/www\.churchofjesuschrist\.org\/\S+)$/gm)].map(match => match[1])
+
+    // Fill the requested duration (~130 wpm) but stay within the token budget (~0.75 words per token)
+    const targetWords = Math.min(duration * 130, Math.floor(maxTokens * 0.75))
+
+    const paragraphs: string[] = []
+    let wordCount = 0
+    let index = 0
+    while (wordCount < targetWords) {
+        const paragraph = MOCK_BODY_PARAGRAPHS[index % MOCK_BODY_PARAGRAPHS.length].replace(/\{topic\}/g, topic)
+        paragraphs.push(paragraph)
+        wordCount += paragraph.split(/\s+/).length
+        index++
+    }
+
+    return {
+        title: `Finding Christ Through ${topic.replace(/\b\w/g, letter => letter.toUpperCase())}`,
+        paragraphs,
+        testimony,
+        sources: links.map(url => ({
+            title: url.split('?')[0].split('/').filter(Boolean).pop() || 'Gospel Library',
+            url
+        }))
+    }
+}
+
+function formatMockTalkAsText(talk: MockTalk): string {
+    const sources = talk.sources.length > 0
+        ? `\n\nSources:\n${talk.sources.map(source => `- ${source.url}`).join('\n')}`
+        : ''
+
+    return `${talk.title}\n\n${talk.paragraphs.join('\n\n')}\n\n${talk.testimony}\n\nIn the name of Jesus Christ, Amen.${sources}`
+}
+
+function buildMockTalkContent(prompt: string, options: LLMCompletionOptions): string {
+    const talk = buildMockTalk(prompt, options.maxTokens ?? 4000)
+    return options.responseFormat === 'json'
+        ? JSON.stringify(talk, null, 2)
+        : formatMockTalkAsText(talk)
+}
+
+/**
+ * Returns the passage from a rewrite prompt with a short lead-in sentence added
+ */
+function buildMockRewrite(prompt: string, asJson: boolean): string {
+    const passage = prompt.match(/PASSAGE TO REWRITE:\n"""\n([\s\S]*?)\n"""/)?.[1] || ''
+    const paragraphs = passage.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean)
+    if (paragraphs.length > 0) {
+        paragraphs[0] = `${MOCK_REWRITE_LEAD_IN} ${paragraphs[0]}`
+    }
+
+    return asJson ? JSON.stringify({ paragraphs }, null, 2) : paragraphs.join('\n\n')
+}
+
+/**
+ * Fits the body from a retime prompt to its target length, keeping paragraphs that cite sources
+ */
+function buildMockRetime(prompt: string, asJson: boolean): string {
+    const body = prompt.match(/TALK BODY TO RETIME:\n"""\n([\s\S]*?)\n"""/)?.[1] || ''
+    const targetWords = parseInt(prompt.match(/to about (\d+) words/)?.[1] || '500', 10)
+    const topic = prompt.match(/talk on "([^"]+)"/)?.[1]?.trim() || 'the gospel of Jesus Christ'
+    const citations = [...(prompt.match(/SOURCES TO KEEP:\n((?:- .+\n?)+)/)?.[1] || '').matchAll(/^- (.+)$/gm)].map(match => match[1])
+
+    const original = body.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean)
+    const countWords = (paragraphs: string[]) => paragraphs.join(' ').split(/\s+/).filter(Boolean).length
+
+    let paragraphs: string[]
+    if (countWords(original) > targetWords) {
+        // Condense: keep cited paragraphs, then fill the remaining budget in order
+        const cited = new Set(original.filter(paragraph => citations.some(citation => paragraph.includes(citation))))
+        let budget = targetWords - countWords([...cited])
+        paragraphs = original.filter(paragraph => {
+            if (cited.has(paragraph)) return true
+            const words = countWords([paragraph])
+            if (words > budget) return false
+            budget -= words
+            return true
+        })
+    } else {
+        // Expand: add stock paragraphs until the target is reached
+        paragraphs = [...original]
+        let index = 0
+        while (countWords(paragraphs) < targetWords) {
+            paragraphs.push(MOCK_BODY_PARAGRAPHS[index % MOCK_BODY_PARAGRAPHS.length].replace(/\{topic\}/g, topic))
+            index++
+        }
+    }
+
+    return asJson ? JSON.stringify({ paragraphs }, null, 2) : paragraphs.join('\n\n')
+}
+
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4)
+}
+
+/**
+ * Resolves the configured provider.
+ *
+ * LLM_PROVIDER selects the backend (defaults to "xai"):
+ * - xai: XAI_API_KEY, optional XAI_MODEL
+ * - openai-compatible: LLM_BASE_URL, optional LLM_API_KEY and LLM_MODEL
+ * - mock: no configuration, no network access
+ */
+export function getLLMProvider(): LLMProvider {
+    const providerName = (process.env.LLM_PROVIDER || 'xai').toLowerCase()
+
+    switch (providerName) {
+        case 'mock':
+            return new MockLLMProvider()
+
+        case 'openai':
+        case 'openai-compatible':
+            return new OpenAICompatibleProvider({
+                name: 'openai-compatible',
+                baseUrl: process.env.LLM_BASE_URL || 'https://api.openai.com/v1',
+                apiKey: process.env.LLM_API_KEY,
+                apiKeyEnvVar: 'LLM_API_KEY',
+                model: process.env.LLM_MODEL || 'gpt-4o-mini'
+            })
+
+        case 'xai':
+        default:
+            if (providerName !== 'xai') {
+                console.warn(`Unknown LLM_PROVIDER "${providerName}", falling back to xai`)
+            }
+            return new OpenAICompatibleProvider({
+                name: 'xai',
+                baseUrl: 'https://api.x.ai/v1',
+                apiKey: process.env.XAI_API_KEY,
+                apiKeyEnvVar: 'XAI_API_KEY',
+                model: process.env.XAI_MODEL || 'grok-4-fast-reasoning'
+            })
+    }
+}
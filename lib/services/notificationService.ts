@@ -0,0 +1,58 @@
+// In-app notifications, also emailed to recipients who opted into that type in settings.
+// Errors are logged and swallowed so a notification problem never fails the action that raised it.
+
+import { prisma } from '../db'
+import { emailService } from './emailService'
+import { NewNotification } from '../types/notifications'
+
+/**
+ * Notifies each user once, skipping whoever caused the notification
+ */
+export async function notifyUsers(userIds: string[], notification: NewNotification): Promise<void> {
+    const recipientIds = [...new Set(userIds)].filter(userId => userId !== notification.actorId)
+    if (recipientIds.length === 0) return
+
+    try {
+        const created = await prisma.notification.createManyAndReturn({
+            data: recipientIds.map(userId => ({
+                userId,
+                actorId: notification.actorId || null,
+                type: notification.type,
+                title: notification.title,
+                body: notification.body || null,
+                link: notification.link || null
+            })),
+            select: { id: true, userId: true }
+        })
+
+        const emailRecipients = await prisma.user.findMany({
+            where: {
+                id: { in: recipientIds },
+                bannedAt: null,
+                notificationEmailTypes: { has: notification.type }
+            },
+            select: { id: true, email: true, firstName: true }
+        })
+
+        const results = await Promise.allSettled(emailRecipients.map(async recipient => {
+            await emailService.sendNotification(recipient.email, recipient.firstName, notification)
+            return recipient.id
+        }))
+
+        const emailedUserIds = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : [])
+        results.forEach(result => {
+            if (result.status === 'rejected') {
+                console.error('Notification email error:', result.reason)
+            }
+        })
+
+        if (emailedUserIds.length > 0) {
+            await prisma.notification.updateMany({
+                where: { id: { in: created.filter(row => emailedUserIds.includes(row.userId)).map(row => row.id) } },
+                data: { emailedAt: new Date() }
+            })
+        }
+    } catch (error) {
+        console.error('Error creating notifications:', error)
+    }
+}
@@ -77,7 +77,7 @@ export class PasswordResetService {
             const bcrypt = await import('bcryptjs')
             const hashedPassword = await bcrypt.hash(newPassword, 12)
 
-            // Update user password and mark token as used
+            // Update user password, mark token as used and sign out every existing session
             await prisma.$transaction([
                 prisma.user.update({
                     where: { id: validation.userId },
@@ -86,6 +86,10 @@ export class PasswordResetService {
                 prisma.passwordReset.update({
                     where: { token },
                     data: { used: true }
+                }),
+                prisma.session.updateMany({
+                    where: { userId: validation.userId, revokedAt: null },
+                    data: { revokedAt: new Date() }
                 })
             ])
 
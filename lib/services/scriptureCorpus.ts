@@ -0,0 +1,104 @@
+// Standard works corpus
+// Exact verse text for the Old and New Testaments, Book of Mormon, Doctrine and Covenants
+// and Pearl of Great Price, imported into the ScriptureVerse table by
+// scripts/importScriptureCorpus.ts. Until the corpus is imported every lookup returns null,
+// so callers fall back to checking references against the book table only.
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '../db'
+import { formatScriptureReference, ScriptureReference } from '../utils/scriptureReferences'
+
+export interface ScriptureVerseText {
+    chapter: number
+    verse: number
+    text: string
+}
+
+export interface ScriptureLookupResult {
+    reference: string // Canonical form, e.g. "Alma 32:21, 27"
+    verses: ScriptureVerseText[] // In chapter and verse order
+    missing: string[] // Parts of the reference that aren't in the scriptures, e.g. "Alma 32:99"
+}
+
+// Set once the corpus has been seen, so the check costs one query per instance
+let corpusLoaded = false
+
+/**
+ * Whether the standard works have been imported
+ */
+export async function isScriptureCorpusLoaded(): Promise<boolean> {
+    if (corpusLoaded) return true
+
+    try {
+        corpusLoaded = (await prisma.scriptureVerse.count({ take: 1 })) > 0
+    } catch (error) {
+        console.error('Error checking scripture corpus:', error)
+    }
+    return corpusLoaded
+}
+
+/**
+ * Resolves a reference to its verse text. Returns null when the corpus isn't loaded
+ * or can't be read.
+ */
+export async function lookupScripture(reference: ScriptureReference): Promise<ScriptureLookupResult | null> {
+    if (!(await isScriptureCorpusLoaded())) return null
+
+    const { book, chapter, verses, startVerse, endChapter, endVerse } = reference
+    const name = book.name
+
+    let where: Prisma.ScriptureVerseWhereInput[]
+    let expected: Array<{ chapter: number; verse?: number; label: string }>
+
+    if (endChapter !== undefined && startVerse !== undefined) {
+        // "Alma 32:21–33:5": the rest of the first chapter, any chapters between, then the start of the last
+        where = [
+            { chapter, verse: { gte: startVerse } },
+            { chapter: { gt: chapter, lt: endChapter } },
+            { chapter: endChapter, ...(endVerse !== undefined ? { verse: { lte: endVerse } } : {}) }
+        ]
+        expected = [
+            { chapter, verse: startVerse, label: `${name} ${chapter}:${startVerse}` },
+            endVerse !== undefined
+                ? { chapter: endChapter, verse: endVerse, label: `${name} ${endChapter}:${endVerse}` }
+                : { chapter: endChapter, label: `${name} ${endChapter}` }
+        ]
+    } else if (endChapter !== undefined) {
+        where = [{ chapter: { gte: chapter, lte: endChapter } }]
+        expected = Array.from({ length: endChapter - chapter + 1 }, (_, index) => ({
+            chapter: chapter + index,
+            label: `${name} ${chapter + index}`
+        }))
+    } else if (verses.length > 0) {
+        where = verses.map(range => ({ chapter, verse: { gte: range.start, lte: range.end } }))
+        expected = verses.flatMap(range => Array.from({ length: range.end - range.start + 1 }, (_, index) => ({
+            chapter,
+            verse: range.start + index,
+            label: `${name} ${chapter}:${range.start + index}`
+        })))
+    } else {
+        where = [{ chapter }]
+        expected = [{ chapter, label: `${name} ${chapter}` }]
+    }
+
+    try {
+        const rows = await prisma.scriptureVerse.findMany({
+            where: { book: book.slug, OR: where },
+            orderBy: [{ chapter: 'asc' }, { verse: 'asc' }],
+            select: { chapter: true, verse: true, text: true }
+        })
+
+        const missing = expected
+            .filter(part => !rows.some(row => row.chapter === part.chapter && (part.verse === undefined || row.verse === part.verse)))
+            .map(part => part.label)
+
+        return {
+            reference: formatScriptureReference(reference),
+            verses: rows,
+            missing
+        }
+    } catch (error) {
+        console.error('Error looking up scripture:', error)
+        return null
+    }
+}
@@ -1,7 +1,7 @@
 // Session and authentication type definitions
 // This file contains session-related types
 
-import { BaseUser } from './user'
+import { BaseUser, UserRole } from './user'
 
 /**
  * User session interface for managing user sessions
@@ -21,4 +21,12 @@ export interface AuthResult {
  user?: BaseUser
  error?: string
  warnings?: string[]
-}
\ No newline at end of file
+}
+
+/**
+ * Result of a role check in a server action or route handler
+ * status is the HTTP status a route handler should respond with
+ */
+export type AuthorizationResult =
+ | { authorized: true; userId: string; sessionId: string; role: UserRole }
+ | { authorized: false; status: 401 | 403; error: string }
@@ -1,6 +1,11 @@
 // User-related type definitions
 // This file contains all user and authentication types
 
+/**
+ * Access level stored on the user record, lowest to highest
+ */
+export type UserRole = 'user' | 'moderator' | 'admin'
+
 /**
  * Base user interface containing core user properties
  */
@@ -9,6 +14,7 @@ export interface BaseUser {
     email: string
     firstName: string
     lastName: string
+    role?: UserRole
 }
 
 /**
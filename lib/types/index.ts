@@ -5,3 +5,5 @@ export * from './auth';
 export * from './talks';
 export * from './api/responses';
 export * from './components';
+export * from './moderation';
+export * from './notifications';
@@ -0,0 +1,25 @@
+// False-positive appeal type definitions
+// This file contains the shapes behind user appeals and their review queue
+
+/**
+ * Where an appeal stands. Overturned appeals are confirmed false positives.
+ */
+export type AppealStatus = 'pending' | 'upheld' | 'overturned'
+
+export type AppealDecision = Exclude<AppealStatus, 'pending'>
+
+/**
+ * A confirmed false positive, exported so filter changes can be checked against it.
+ * The input should not be flagged with the given type.
+ */
+export interface FalsePositiveRegressionCase {
+    violationId: string
+    type: string
+    severity: string
+    detectedPattern: string
+    input: string
+    ruleSetVersion: number | null
+    appealNote: string | null
+    reviewNote: string | null
+    reviewedAt: Date | null
+}
@@ -0,0 +1,69 @@
+// Moderation dashboard type definitions
+// This file contains the data shapes behind the /admin moderation console
+
+import type { SecurityViolationLog } from '../../security/violationLogger'
+
+/**
+ * Time window for violation statistics
+ */
+export type ViolationTimeRange = 'hour' | 'day' | 'week' | 'month'
+
+/**
+ * Violation counts for one slice of a statistics time range
+ */
+export interface ViolationTimelineBucket {
+    start: Date
+    total: number
+    byType: Record<string, number>
+    bySeverity: Record<string, number>
+}
+
+/**
+ * A user's violation totals for the "users" view of the dashboard
+ */
+export interface ViolatingUserSummary {
+    userId: string
+    email: string
+    firstName: string
+    lastName: string
+    bannedAt: Date | null
+    violationCount: number
+    highestSeverity: string
+    lastViolationAt: Date
+}
+
+/**
+ * Everything the dashboard's overview shows for a time range
+ */
+export interface ModerationOverview {
+    timeRange: ViolationTimeRange
+    totalViolations: number
+    violationsByType: Record<string, number>
+    violationsBySeverity: Record<string, number>
+    uniqueUsers: number
+    uniqueIPs: number
+    topPatterns: Array<{ pattern: string; count: number }>
+    timeline: ViolationTimelineBucket[]
+    topUsers: ViolatingUserSummary[]
+    recentViolations: SecurityViolationLog[]
+    pendingAppeals: SecurityViolationLog[] // False-positive appeals awaiting review, oldest first
+}
+
+/**
+ * A single user's account state and violation history
+ */
+export interface ModeratedUserHistory {
+    user: {
+        id: string
+        email: string
+        firstName: string
+        lastName: string
+        role: string
+        bannedAt: Date | null
+        banReason: string | null
+        createdAt: Date
+    }
+    violations: SecurityViolationLog[]
+    isRateLimited: boolean
+    nextAllowedTime?: Date
+}
@@ -0,0 +1,6 @@
+// Moderation-related type exports
+// This file exports the admin moderation dashboard, rule set and appeal types
+
+export * from './dashboard'
+export * from './ruleSets'
+export * from './appeals'
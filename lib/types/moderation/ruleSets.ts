@@ -0,0 +1,55 @@
+// Moderation rule set type definitions
+// This file contains the shapes used to manage and dry-run versioned rule sets
+
+/**
+ * Lifecycle of a stored rule set. Only one is active at a time.
+ */
+export type RuleSetStatus = 'draft' | 'active' | 'archived'
+
+/**
+ * A rule set version as listed in the admin area
+ */
+export interface ModerationRuleSetSummary {
+    version: number
+    name: string
+    notes: string | null
+    status: RuleSetStatus
+    builtIn: boolean // The rule set shipped with the app rather than stored in the database
+    createdAt: Date | null
+    activatedAt: Date | null
+}
+
+/**
+ * A rule set version with its full definition
+ */
+export interface ModerationRuleSetDetail extends ModerationRuleSetSummary {
+    definition: unknown
+}
+
+/**
+ * What a candidate rule set makes of one historical violation
+ * - still_flagged: the same violation type is still reported at the same severity
+ * - severity_changed: the same type is reported at a different severity
+ * - cleared: the violation would no longer be reported
+ */
+export type DryRunOutcome = 'still_flagged' | 'severity_changed' | 'cleared'
+
+export interface DryRunViolationResult {
+    violationId: string
+    createdAt: Date
+    type: string
+    severity: string
+    ruleSetVersion: number | null // Version that originally produced the violation
+    userInput: string
+    outcome: DryRunOutcome
+    newSeverity: string | null
+    detectedPatterns: string[]
+}
+
+export interface RuleSetDryRunResult {
+    ruleSetVersion: number | null // null for a definition that hasn't been saved
+    evaluatedCount: number
+    skippedCount: number // Violations with no stored input or of a type rule sets don't produce
+    outcomes: Record<DryRunOutcome, number>
+    results: DryRunViolationResult[]
+}
@@ -0,0 +1,4 @@
+// Notification type exports
+// This file exports in-app notification and email preference types
+
+export * from './notifications'
@@ -0,0 +1,32 @@
+// Notification type definitions
+// This file contains types for in-app notifications and their email delivery
+
+import { BaseUser } from '../auth/user'
+
+export type NotificationType =
+    | 'share_received' // Someone shared a talk with the user
+    | 'share_responded' // A recipient accepted or declined one of the user's shares
+    | 'comment_added' // New comment or reply on a talk the user wrote or is discussing
+    | 'speaking_assignment' // A share asked the user to give the talk on a date
+
+export interface UserNotification {
+    id: string
+    type: NotificationType
+    title: string
+    body?: string
+    link?: string
+    actor?: BaseUser
+    read: boolean
+    createdAt: Date
+}
+
+/**
+ * A notification to create for one or more users
+ */
+export interface NewNotification {
+    type: NotificationType
+    title: string
+    body?: string
+    link?: string
+    actorId?: string
+}
@@ -0,0 +1,32 @@
+// Gospel Library content type definitions
+// This file contains the structured shape of pages fetched from churchofjesuschrist.org
+
+/**
+ * Kind of page, worked out from its URL
+ */
+export type ChurchPageType = 'scripture' | 'conference_talk' | 'manual' | 'liahona' | 'article'
+
+/**
+ * One heading, paragraph or verse of a page's body
+ */
+export interface ChurchContentBlock {
+    id: string | null // Element id on the page ("p12"), usable as a #p12 anchor
+    kind: 'heading' | 'paragraph' | 'verse'
+    text: string
+    verse?: number // Verse number, for scripture verses
+    footnotes: string[] // Footnote markers in the block, e.g. ["a", "b"] or ["1"]
+}
+
+/**
+ * A page reduced to its metadata and body blocks, in page order
+ */
+export interface ChurchPageContent {
+    url: string
+    type: ChurchPageType
+    title: string
+    author?: string // Speaker or writer, without the leading "By"
+    authorRole?: string // e.g. "Of the Quorum of the Twelve Apostles"
+    date?: string // e.g. "April 2024", for conference talks and magazine articles
+    summary?: string // Talk kicker or scripture chapter summary
+    blocks: ChurchContentBlock[]
+}
@@ -0,0 +1,43 @@
+// Talk review comment type definitions
+// This file contains types for comment threads and suggested edits on shared talks
+
+import { BaseUser } from '../auth/user'
+
+export type SuggestionStatus = 'pending' | 'accepted' | 'rejected'
+
+/**
+ * One comment in a thread
+ */
+export interface TalkComment {
+    id: string
+    author: BaseUser
+    body: string
+    createdAt: Date
+}
+
+/**
+ * A thread of comments about a range of a talk's paragraphs
+ */
+export interface TalkCommentThread extends TalkComment {
+    talkId: string
+    startParagraph: number // Where the anchored paragraphs are in the talk now
+    endParagraph: number
+    quotedText: string // The anchored paragraphs as they read when the thread was started
+    isOutdated: boolean // The anchored paragraphs have since been changed or removed
+    suggestion?: string // Suggested replacement for the anchored paragraphs
+    suggestionStatus?: SuggestionStatus
+    resolved: boolean
+    resolvedBy?: BaseUser
+    resolvedAt?: Date
+    replies: TalkComment[]
+}
+
+/**
+ * A new thread started on a range of paragraphs, optionally suggesting an edit
+ */
+export interface NewTalkCommentThread {
+    startParagraph: number
+    endParagraph: number
+    body: string
+    suggestion?: string
+}
@@ -1,6 +1,8 @@
 // Talk generation type definitions
 // This file contains types for talk generation functionality
 
+import { TalkAccess } from './sharing';
+
 export type MeetingType =
     | 'sacrament'
     | 'stake_conference'
@@ -36,6 +38,22 @@ export interface ChurchSource {
     title: string;
     url: string;
     type: 'scripture' | 'conference_talk' | 'manual' | 'article';
+    verification?: CitationVerification;
+}
+
+// 'unchecked' when the page couldn't be read or nothing is quoted from it
+export type QuotationStatus = 'verified' | 'paraphrased' | 'not_found' | 'unchecked';
+
+export interface QuotationCheck {
+    text: string;
+    status: QuotationStatus;
+    similarity: number | null; // Share of the quote's words found in the source, 0-1
+}
+
+export interface CitationVerification {
+    status: QuotationStatus; // Worst result among the quotations attributed to the source
+    note?: string;
+    quotations: QuotationCheck[];
 }
 
 export interface GeneratedTalk {
@@ -47,10 +65,13 @@ export interface GeneratedTalk {
     sources: ChurchSource[];
     questionnaire: TalkQuestionnaire;
     createdAt?: Date;
+    access?: TalkAccess; // Set when a saved talk is loaded for the current user
 }
 
 export interface TalkPreferences {
     audienceType?: string;
+    speakerAge?: string;
+    testimony?: string;
     preferredThemes?: string[];
     specificScriptures?: string[];
 }
@@ -65,6 +86,33 @@ export interface ProcessedQuestionnaireResult {
     };
 }
 
+// Targeted rewrite of a range of paragraphs in a saved talk (paragraph indices are inclusive)
+export interface PassageRewriteRequest {
+    startParagraph: number;
+    endParagraph: number;
+    instruction: string;
+}
+
+export interface PassageRewriteProposal extends PassageRewriteRequest {
+    talkId: string;
+    original: string[];
+    replacement: string[];
+    content: string; // Full talk content with the replacement applied, for preview; rebuilt on the server when accepted
+    warnings: string[];
+}
+
+export type QuestionnaireDraftStatus = 'in_progress' | 'submitted';
+
+// Questionnaire draft persisted server-side, keyed by its quest_ session id
+export interface StoredQuestionnaire {
+    sessionId: string;
+    questionnaire: TalkQuestionnaire;
+    userId: string;
+    status: QuestionnaireDraftStatus;
+    timestamp: number; // Last saved, in milliseconds
+    expiresAt: Date;
+}
+
 // Database talk type that matches the Prisma schema
 export interface DatabaseTalk {
     id: string;
@@ -81,4 +129,30 @@ export interface DatabaseTalk {
     createdAt: Date;
     updatedAt: Date;
     userId: string;
-}
\ No newline at end of file
+}
+
+// Pipeline stages reported while a talk is being generated, in order
+export type TalkGenerationStage =
+    | 'validating_input'
+    | 'building_prompt'
+    | 'fetching_sources'
+    | 'generating'
+    | 'validating_response'
+    | 'validating_content'
+    | 'verifying_sources'
+    | 'complete';
+
+export interface TalkGenerationResult {
+    success: boolean;
+    data?: GeneratedTalk;
+    error?: string;
+    warnings?: string[];
+    violations?: unknown[];
+}
+
+// Events streamed from /api/generate-talk as newline-delimited JSON
+export type TalkGenerationEvent =
+    | { type: 'stage'; stage: TalkGenerationStage; progress: number }
+    | { type: 'token'; text: string; progress: number }
+    | { type: 'reset' } // Provider retried or the output was rejected; discard the text streamed so far
+    | { type: 'result'; result: TalkGenerationResult };
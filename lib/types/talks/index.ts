@@ -3,4 +3,6 @@
 
 export * from './generation';
 export * from './sharing';
-export * from './display';
\ No newline at end of file
+export * from './display';
+export * from './churchContent';
+export * from './comments';
\ No newline at end of file
@@ -2,9 +2,19 @@
 // This file contains types for talk sharing functionality
 
 import { BaseUser } from '../auth/user';
-import { MeetingType } from './generation';
+import { GeneratedTalk, MeetingType } from './generation';
 
-export type ShareStatus = 'pending' | 'accepted' | 'declined';
+export type ShareStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+// What an accepted share lets the recipient do with the original talk
+export type SharePermission = 'view' | 'comment' | 'edit';
+
+// How the current user reaches a talk: as its author or through an accepted share
+export type TalkAccessLevel = 'owner' | SharePermission;
+
+export type TalkAccess =
+    | { level: 'owner' }
+    | { level: SharePermission; sharedBy: BaseUser }; // sharedBy is the talk's author
 
 export interface TalkShare {
     id: string;
@@ -13,8 +23,27 @@ export interface TalkShare {
     sharedWithId: string;
     message?: string;
     status: ShareStatus;
+    permission: SharePermission;
     createdAt: Date;
+    sentAt: Date;
+    viewedAt?: Date;
     respondedAt?: Date;
+    revokedAt?: Date;
+}
+
+export type ShareEventType = 'sent' | 'resent' | 'permission_changed' | 'viewed' | 'accepted' | 'declined' | 'revoked';
+
+/**
+ * One entry in a talk's sharing history, as shown to its author
+ */
+export interface ShareEvent {
+    id: string;
+    shareId: string;
+    type: ShareEventType;
+    actor?: BaseUser; // Missing if the account was deleted
+    recipient: BaseUser;
+    permission?: SharePermission; // Set for sent, resent and permission_changed
+    createdAt: Date;
 }
 
 export interface SharedTalkDetails {
@@ -28,9 +57,14 @@ export interface SharedTalkDetails {
     };
     sharedWith: BaseUser;
     message?: string;
+    speakingDate?: Date; // Set when the share asks the recipient to give the talk
     status: ShareStatus;
+    permission: SharePermission;
     createdAt: Date;
+    sentAt: Date;
+    viewedAt?: Date;
     respondedAt?: Date;
+    revokedAt?: Date;
 }
 
 export interface ReceivedTalkDetails {
@@ -44,6 +78,35 @@ export interface ReceivedTalkDetails {
     };
     sharedBy: BaseUser;
     message?: string;
+    speakingDate?: Date; // Set when the share asks the recipient to give the talk
     status: ShareStatus;
+    permission: SharePermission;
     createdAt: Date;
-}
\ No newline at end of file
+}
+
+/**
+ * A public read-only link to a talk, as listed for its author
+ */
+export interface ShareLink {
+    id: string;
+    path: string; // "/share/{token}"
+    hasPassword: boolean;
+    expiresAt: Date;
+    revokedAt?: Date;
+    viewCount: number;
+    lastViewedAt?: Date;
+    createdAt: Date;
+}
+
+export interface CreateShareLinkOptions {
+    expiresInDays: number;
+    password?: string;
+}
+
+/**
+ * What a public share link shows a visitor
+ */
+export type PublicSharedTalkResult =
+    | { status: 'available'; talk: GeneratedTalk; authorName: string; expiresAt: Date }
+    | { status: 'password_required' }
+    | { status: 'unavailable' }; // Unknown, expired or revoked
\ No newline at end of file
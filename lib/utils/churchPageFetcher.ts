@@ -0,0 +1,165 @@
+// Fetching and caching of churchofjesuschrist.org pages. Not a 'use server' module: the
+// fetch writes into the shared page cache, so it is only reachable through server code
+// that has already chosen the URL, and it refuses anything off the Church site.
+
+import { extractChurchPage, getChurchPagePlainText } from './gospelLibraryExtractor'
+import { ChurchPageContent } from '../types/talks/churchContent'
+import {
+    getChurchPageCacheEntry,
+    isChurchPageCacheEntryFresh,
+    refreshChurchPageCacheEntry,
+    setChurchPageCacheEntry
+} from '../cache/churchContentCache'
+
+const CHURCH_SITE_HOST = 'www.churchofjesuschrist.org'
+
+// The site redirects between language and canonical paths; anything longer is suspicious
+const MAX_REDIRECTS = 3
+
+const FETCH_TIMEOUT_MS = 8000
+
+// With a stale copy to fall back on, a slow site isn't worth waiting as long for
+const REVALIDATE_TIMEOUT_MS = 3000
+
+/**
+ * Whether a URL is an https page on the Church site, with no credentials or custom port
+ */
+export const isChurchPageUrl = (url: string): boolean => {
+    try {
+        const parsed = new URL(url.trim())
+        return parsed.protocol === 'https:'
+            && parsed.hostname === CHURCH_SITE_HOST
+            && parsed.port === ''
+            && parsed.username === ''
+            && parsed.password === ''
+    } catch {
+        return false
+    }
+}
+
+/**
+ * Fetches from the Church site, following redirects only while they stay on it
+ */
+async function fetchFromChurchSite(url: string, init: RequestInit): Promise<Response> {
+    let currentUrl = url
+
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+        const response = await fetch(currentUrl, { ...init, redirect: 'manual' })
+        const location = response.headers.get('location')
+
+        if (response.status < 300 || response.status >= 400 || response.status === 304 || !location) {
+            return response
+        }
+
+        const nextUrl = new URL(location, currentUrl).toString()
+        if (!isChurchPageUrl(nextUrl)) {
+            throw new Error(`Redirected off the Church site to ${nextUrl}`)
+        }
+        currentUrl = nextUrl
+    }
+
+    throw new Error(`Too many redirects fetching ${url}`)
+}
+
+/**
+ * Removes characters and markup from page text that could pose as prompt structure:
+ * invisible and bidi control characters, chat-template tokens and anything that
+ * looks like the reference fences added by fetchMultipleChurchContents
+ */
+function sanitizeFetchedText(text: string): string {
+    return text
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '')
+        .replace(/[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g, '')
+        .replace(/<\|[^|>]*\|>/g, '')
+        .replace(/<{3,}|>{3,}/g, '')
+        .replace(/\[(?:END )?(?:CONTENT|REFERENCE)[^\]]*\]/gi, '')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim()
+}
+
+/**
+ * Applies sanitizeFetchedText to every text field of an extracted page
+ */
+function sanitizePageContent(content: ChurchPageContent): ChurchPageContent {
+    const sanitizeOptional = (text?: string) => text ? sanitizeFetchedText(text) || undefined : undefined
+    return {
+        ...content,
+        title: sanitizeFetchedText(content.title),
+        author: sanitizeOptional(content.author),
+        authorRole: sanitizeOptional(content.authorRole),
+        summary: sanitizeOptional(content.summary),
+        blocks: content.blocks
+            .map(block => ({ ...block, text: sanitizeFetchedText(block.text) }))
+            .filter(block => block.text.length > 0)
+    }
+}
+
+/**
+ * Fetches a churchofjesuschrist.org page and parses it into structured content.
+ * Pages come from the shared cache while fresh and are revalidated with ETag/Last-Modified
+ * once stale; if the site is slow or unavailable the stale copy is used instead.
+ * Returns null for URLs outside the Church site, or if the page can't be fetched and
+ * isn't cached, or has no body text.
+ */
+export async function fetchChurchPage(url: string): Promise<ChurchPageContent | null> {
+    if (!isChurchPageUrl(url)) {
+        console.warn(`Refusing to fetch non-Church URL: ${url}`)
+        return null
+    }
+
+    const cached = await getChurchPageCacheEntry(url)
+    if (cached && isChurchPageCacheEntryFresh(cached)) {
+        return cached.content
+    }
+
+    try {
+        const response = await fetchFromChurchSite(url, {
+            method: 'GET',
+            headers: {
+                'User-Agent': 'Mozilla/5.0 (compatible; PulpitPal/1.0)',
+                'Accept': 'text/html,application/xhtml+xml',
+                'Accept-Language': 'en-US,en;q=0.9',
+                ...(cached?.etag ? { 'If-None-Match': cached.etag } : {}),
+                ...(cached?.lastModified ? { 'If-Modified-Since': cached.lastModified } : {}),
+            },
+            signal: AbortSignal.timeout(cached ? REVALIDATE_TIMEOUT_MS : FETCH_TIMEOUT_MS),
+        })
+
+        if (response.status === 304 && cached) {
+            await refreshChurchPageCacheEntry(url, cached)
+            return cached.content
+        }
+
+        if (!response.ok) {
+            console.warn(`Failed to fetch church content from ${url}: ${response.status}`)
+            return cached?.content ?? null
+        }
+
+        const contentType = response.headers.get('content-type') || ''
+        if (!contentType.includes('text/html')) {
+            // Not an HTML page (might be PDF or other)
+            return null
+        }
+
+        const html = await response.text()
+        const content = sanitizePageContent(extractChurchPage(html, url))
+
+        if (getChurchPagePlainText(content).length < 50) {
+            return null
+        }
+
+        await setChurchPageCacheEntry(url, content, {
+            etag: response.headers.get('etag'),
+            lastModified: response.headers.get('last-modified')
+        })
+
+        return content
+    } catch (error) {
+        console.warn(`Error fetching church content from ${url}:`, error instanceof Error ? error.message : error)
+        if (cached) {
+            console.warn(`Using stale cached content for ${url}`)
+        }
+        return cached?.content ?? null
+    }
+}
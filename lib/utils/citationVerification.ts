@@ -0,0 +1,189 @@
+// Checks quoted passages in a generated talk against the text of the sources they're
+// attributed to. A quote is attributed to the sources cited in its paragraph (by URL,
+// title or scripture reference); a quote with no citation nearby is matched against
+// every source and attributed to the closest one if it's close enough.
+
+import { ChurchSource, CitationVerification, QuotationCheck, QuotationStatus } from '@/lib/types/talks/generation'
+import { buildScriptureUrl, findScriptureReferences } from './scriptureReferences'
+
+// Share of a quote's words found together in the page at or above which it counts as quoted verbatim
+const VERBATIM_THRESHOLD = 0.9
+
+// Below this the quote isn't in the source at all
+const PARAPHRASE_THRESHOLD = 0.6
+
+// Shorter quoted phrases are usually scare quotes or titles rather than quotations
+const MIN_QUOTE_WORDS = 6
+
+// Ellipsis fragments shorter than this are ignored rather than matched on their own
+const MIN_FRAGMENT_WORDS = 3
+
+const QUOTE_PATTERN = /[“"]([^“”"]+)[”"]/g
+
+const toWords = (text: string): string[] => {
+    return text
+        .toLowerCase()
+        .replace(/[‘’]/g, '\'')
+        .match(/[a-z0-9']+/g) || []
+}
+
+// Pages are matched by path so scripture links to different verses of one chapter share a page
+const toPageKey = (url: string): string => {
+    try {
+        const parsed = new URL(url)
+        return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/$/, '')}`.toLowerCase()
+    } catch {
+        return url.toLowerCase()
+    }
+}
+
+/**
+ * Best share (0-1) of the fragment's words found in any same-length window of the page
+ */
+const getContainment = (fragment: string[], page: string[]): number => {
+    if (fragment.length === 0 || page.length === 0) return 0
+
+    // A verbatim quote is a contiguous run of page words
+    if (` ${page.join(' ')} `.includes(` ${fragment.join(' ')} `)) return 1
+
+    const wanted = new Map<string, number>()
+    for (const word of fragment) {
+        wanted.set(word, (wanted.get(word) || 0) + 1)
+    }
+
+    const window = new Map<string, number>()
+    let overlap = 0
+    let best = 0
+
+    page.forEach((word, index) => {
+        const count = window.get(word) || 0
+        if (count < (wanted.get(word) || 0)) overlap++
+        window.set(word, count + 1)
+
+        if (index >= fragment.length) {
+            const leaving = page[index - fragment.length]
+            const leavingCount = window.get(leaving)! - 1
+            window.set(leaving, leavingCount)
+            if (leavingCount < (wanted.get(leaving) || 0)) overlap--
+        }
+
+        best = Math.max(best, overlap)
+    })
+
+    return best / fragment.length
+}
+
+/**
+ * Similarity of a quote to a page. Quotes that skip text with an ellipsis are matched fragment by fragment.
+ */
+const getQuoteSimilarity = (quote: string, page: string[]): number => {
+    const fragments = quote
+        .split(/…|\.\s*\.\s*\./)
+        .map(toWords)
+        .filter(words => words.length >= MIN_FRAGMENT_WORDS)
+    const totalWords = fragments.reduce((sum, words) => sum + words.length, 0)
+    if (totalWords === 0) return 0
+
+    return fragments.reduce((sum, words) => sum + getContainment(words, page) * words.length, 0) / totalWords
+}
+
+const toQuotationStatus = (similarity: number): QuotationStatus => {
+    if (similarity >= VERBATIM_THRESHOLD) return 'verified'
+    if (similarity >= PARAPHRASE_THRESHOLD) return 'paraphrased'
+    return 'not_found'
+}
+
+/**
+ * Quoted passages long enough to be quotations, with the paragraph they appear in
+ */
+const findQuotations = (content: string): Array<{ text: string; paragraph: string }> => {
+    return content
+        .split(/\n+/)
+        .flatMap(paragraph => [...paragraph.matchAll(QUOTE_PATTERN)]
+            .map(match => ({ text: match[1].trim(), paragraph }))
+            .filter(quote => toWords(quote.text).length >= MIN_QUOTE_WORDS))
+}
+
+/**
+ * Sources a paragraph cites by URL, title or scripture reference
+ */
+const getCitedPageKeys = (paragraph: string, sources: ChurchSource[]): Set<string> => {
+    const lowerParagraph = paragraph.toLowerCase()
+    const cited = new Set(findScriptureReferences(paragraph).map(({ reference }) => toPageKey(buildScriptureUrl(reference))))
+
+    for (const source of sources) {
+        const mentionsTitle = source.title.length >= 4 && lowerParagraph.includes(source.title.toLowerCase())
+        if (mentionsTitle || paragraph.includes(source.url)) {
+            cited.add(toPageKey(source.url))
+        }
+    }
+
+    return cited
+}
+
+/**
+ * Attaches a verification result to each source. `pageTexts` holds the fetched text
+ * of each source URL, or null when the page couldn't be fetched.
+ */
+export const verifyCitations = (
+    content: string,
+    sources: ChurchSource[],
+    pageTexts: Map<string, string | null>
+): ChurchSource[] => {
+    const pages = new Map<string, string[]>()
+    for (const source of sources) {
+        const text = pageTexts.get(source.url)
+        if (text) pages.set(toPageKey(source.url), toWords(text))
+    }
+
+    const checksByPage = new Map<string, QuotationCheck[]>()
+    const attribute = (pageKey: string, check: QuotationCheck) => {
+        checksByPage.set(pageKey, [...(checksByPage.get(pageKey) || []), check])
+    }
+
+    for (const quote of findQuotations(content)) {
+        const cited = [...getCitedPageKeys(quote.paragraph, sources)]
+            .filter(pageKey => sources.some(source => toPageKey(source.url) === pageKey))
+        const candidates = cited.length > 0 ? cited : [...pages.keys()]
+
+        let bestPage: string | null = null
+        let bestSimilarity = 0
+        for (const pageKey of candidates) {
+            const page = pages.get(pageKey)
+            if (!page) continue
+            const similarity = getQuoteSimilarity(quote.text, page)
+            if (bestPage === null || similarity > bestSimilarity) {
+                bestPage = pageKey
+                bestSimilarity = similarity
+            }
+        }
+
+        const status = toQuotationStatus(bestSimilarity)
+        if (bestPage && (cited.length > 0 || status !== 'not_found')) {
+            attribute(bestPage, { text: quote.text, status, similarity: Math.round(bestSimilarity * 100) / 100 })
+        } else if (cited.length > 0) {
+            // Cited, but none of the cited pages could be fetched
+            attribute(cited[0], { text: quote.text, status: 'unchecked', similarity: null })
+        }
+    }
+
+    return sources.map(source => ({
+        ...source,
+        verification: summarizeChecks(checksByPage.get(toPageKey(source.url)) || [], pages.has(toPageKey(source.url)))
+    }))
+}
+
+const summarizeChecks = (quotations: QuotationCheck[], pageFetched: boolean): CitationVerification => {
+    if (!pageFetched) {
+        return { status: 'unchecked', note: 'The source page could not be read', quotations }
+    }
+    if (quotations.length === 0) {
+        return { status: 'unchecked', note: 'Nothing in the talk is quoted from this source', quotations }
+    }
+
+    const status = quotations.some(check => check.status === 'not_found')
+        ? 'not_found'
+        : quotations.some(check => check.status === 'paraphrased') ? 'paraphrased' : 'verified'
+
+    return { status, quotations }
+}
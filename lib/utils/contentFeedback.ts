@@ -11,7 +11,8 @@ export async function convertViolationsToFeedback(violations: SecurityViolation[
  type: violation.type,
  severity: violation.severity,
  message: getUserFriendlyMessage(violation),
- suggestions: getSuggestionsForViolation(violation)
+ suggestions: getSuggestionsForViolation(violation),
+ violationId: violation.violationId
  }))
 }
 
@@ -0,0 +1,33 @@
+import { TalkGenerationStage } from '@/lib/types/talks/generation'
+
+// Pipeline stages in the order generateTalk runs them, with the overall progress reached when each starts
+export const TALK_GENERATION_STAGES: Array<{ stage: TalkGenerationStage; label: string; progress: number }> = [
+    { stage: 'validating_input', label: 'Checking your questionnaire', progress: 2 },
+    { stage: 'building_prompt', label: 'Building the prompt', progress: 8 },
+    { stage: 'fetching_sources', label: 'Reading your Gospel Library sources', progress: 12 },
+    { stage: 'generating', label: 'Writing your talk', progress: 25 },
+    { stage: 'validating_response', label: 'Running the safety check', progress: 88 },
+    { stage: 'validating_content', label: 'Validating content and sources', progress: 94 },
+    { stage: 'verifying_sources', label: 'Checking quotations against sources', progress: 97 },
+    { stage: 'complete', label: 'Complete!', progress: 100 }
+]
+
+// Progress reached when the provider has streamed the full expected length
+export const GENERATION_STREAM_END_PROGRESS = 86
+
+export const getGenerationStageLabel = (stage: TalkGenerationStage): string => {
+    return TALK_GENERATION_STAGES.find(s => s.stage === stage)?.label || 'Processing...'
+}
+
+export const getGenerationStageProgress = (stage: TalkGenerationStage): number => {
+    return TALK_GENERATION_STAGES.find(s => s.stage === stage)?.progress ?? 0
+}
+
+/**
+ * Maps streamed characters onto the generating stage's slice of the progress bar
+ */
+export const getStreamingProgress = (receivedChars: number, expectedChars: number): number => {
+    const start = getGenerationStageProgress('generating')
+    const ratio = expectedChars > 0 ? Math.min(receivedChars / expectedChars, 1) : 0
+    return Math.round(start + ratio * (GENERATION_STREAM_END_PROGRESS - start))
+}
@@ -0,0 +1,191 @@
+// Structured extraction of churchofjesuschrist.org pages: scripture chapters, conference
+// talks, manuals and magazine articles. Pages are parsed into a DOM so verse numbers,
+// paragraph ids, footnote markers, headings and speaker metadata survive, and text
+// readers never see (hidden elements, comments, templates) is dropped.
+
+import { parseDocument, DomUtils } from 'htmlparser2'
+import { AnyNode, Element, isTag, isText } from 'domhandler'
+import { ChurchContentBlock, ChurchPageContent, ChurchPageType } from '@/lib/types/talks/churchContent'
+
+// Bump when extraction changes so cached pages parsed by the old version are re-fetched
+export const EXTRACTOR_VERSION = 1
+
+// Elements whose content is never part of the page text
+const REMOVED_TAGS = new Set(['script', 'style', 'template', 'noscript', 'nav', 'footer', 'aside', 'iframe', 'form', 'button', 'svg'])
+
+const BLOCK_TAGS = new Set(['p', 'h2', 'h3', 'h4', 'h5', 'h6', 'li'])
+const HEADING_TAGS = new Set(['h2', 'h3', 'h4', 'h5', 'h6'])
+
+// Header elements read into metadata rather than body blocks
+const METADATA_CLASSES = ['title', 'title-number', 'subtitle', 'author-name', 'author-role', 'kicker', 'study-summary']
+
+// Content areas used by Gospel Library, most specific first
+const BODY_CLASSES = ['body-block', 'study-content', 'article-content', 'content-body']
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+
+const hasClass = (element: Element, className: string): boolean => {
+    return (element.attribs.class || '').split(/\s+/).includes(className)
+}
+
+const isHidden = (element: Element): boolean => {
+    return element.attribs.hidden !== undefined
+        || element.attribs['aria-hidden'] === 'true'
+        || /display:\s*none|visibility:\s*hidden/i.test(element.attribs.style || '')
+}
+
+const isFootnoteMarker = (element: Element): boolean => {
+    return element.name === 'sup' && (hasClass(element, 'marker') || element.attribs['data-value'] !== undefined)
+}
+
+const normalizeText = (text: string): string => text.replace(/\s+/g, ' ').trim()
+
+/**
+ * Visible text of a node, leaving out footnote markers and verse numbers
+ */
+const collectText = (node: AnyNode): string => {
+    if (isText(node)) return node.data
+    if (!isTag(node)) return ''
+    if (isFootnoteMarker(node) || hasClass(node, 'verse-number')) return ''
+    if (node.name === 'br') return ' '
+    return node.children.map(collectText).join('')
+}
+
+const getElementText = (element: Element | null | undefined): string | undefined => {
+    return element ? normalizeText(collectText(element)) || undefined : undefined
+}
+
+export const getChurchPageType = (url: string): ChurchPageType => {
+    if (url.includes('/study/scriptures/')) return 'scripture'
+    if (url.includes('/study/general-conference/')) return 'conference_talk'
+    if (url.includes('/study/liahona/')) return 'liahona'
+    if (url.includes('/study/manual/')) return 'manual'
+    return 'article'
+}
+
+// Conference talks and magazine articles carry their year and month in the path
+const getDateFromUrl = (url: string): string | undefined => {
+    const match = url.match(/\/study\/(?:general-conference|liahona|ensign|new-era|friend|for-the-strength-of-youth)\/(\d{4})\/(\d{2})\//)
+    if (!match) return undefined
+    const month = MONTHS[Number(match[2]) - 1]
+    return month ? `${month} ${match[1]}` : undefined
+}
+
+/**
+ * Turns one body element into a block, or null if it has no text
+ */
+const toBlock = (element: Element): ChurchContentBlock | null => {
+    const text = getElementText(element)
+    if (!text) return null
+
+    const footnotes = DomUtils.findAll(isFootnoteMarker, element.children)
+        .map(marker => marker.attribs['data-value'] || normalizeText(DomUtils.textContent(marker)))
+        .filter(marker => marker.length > 0)
+
+    const verseNumber = DomUtils.findOne(child => hasClass(child, 'verse-number'), element.children)
+    const verse = verseNumber ? parseInt(DomUtils.textContent(verseNumber), 10) : NaN
+
+    return {
+        id: element.attribs.id || null,
+        kind: HEADING_TAGS.has(element.name)
+            ? 'heading'
+            : hasClass(element, 'verse') || !isNaN(verse) ? 'verse' : 'paragraph',
+        text,
+        ...(isNaN(verse) ? {} : { verse }),
+        footnotes
+    }
+}
+
+/**
+ * Parses a Gospel Library page into its metadata and body blocks
+ */
+export const extractChurchPage = (html: string, url: string): ChurchPageContent => {
+    const document = parseDocument(html)
+
+    for (const element of DomUtils.findAll(element => REMOVED_TAGS.has(element.name) || isHidden(element), document.children)) {
+        DomUtils.removeElement(element)
+    }
+
+    const findFirst = (test: (element: Element) => boolean, within: AnyNode[] = document.children) => DomUtils.findOne(test, within)
+    const byClass = (className: string) => (element: Element) => hasClass(element, className)
+
+    const root = findFirst(element => element.name === 'article')
+        || findFirst(element => element.name === 'main')
+        || document
+    const body = BODY_CLASSES.map(className => findFirst(byClass(className), root.children)).find(Boolean) || root
+
+    const heading = findFirst(element => element.name === 'h1', root.children)
+    const pageTitle = getElementText(findFirst(element => element.name === 'title'))?.split(/\s+\|\s+/)[0]
+    const numberedTitle = [getElementText(findFirst(byClass('title'), root.children)), getElementText(findFirst(byClass('title-number'), root.children))]
+        .filter(Boolean)
+        .join(', ')
+
+    const metadataElements = new Set<Element>([
+        ...(heading ? [heading] : []),
+        ...DomUtils.findAll(element => METADATA_CLASSES.some(className => hasClass(element, className)), root.children)
+    ])
+    const isInMetadata = (element: Element): boolean => {
+        for (let node: Element | null = element; node; node = node.parent && isTag(node.parent) ? node.parent : null) {
+            if (metadataElements.has(node)) return true
+        }
+        return false
+    }
+
+    const blocks = DomUtils.findAll(element => BLOCK_TAGS.has(element.name), body.children)
+        // A list item that wraps paragraphs is read through its paragraphs
+        .filter(element => !DomUtils.existsOne(child => BLOCK_TAGS.has(child.name), element.children))
+        .filter(element => !isInMetadata(element))
+        .map(toBlock)
+        .filter((block): block is ChurchContentBlock => block !== null)
+
+    return {
+        url,
+        type: getChurchPageType(url),
+        title: getElementText(heading) || numberedTitle || pageTitle || 'Untitled',
+        author: getElementText(findFirst(byClass('author-name'), root.children))?.replace(/^By\s+/i, ''),
+        authorRole: getElementText(findFirst(byClass('author-role'), root.children)),
+        date: getDateFromUrl(url),
+        summary: getElementText(findFirst(byClass('kicker'), root.children) || findFirst(byClass('study-summary'), root.children)),
+        blocks
+    }
+}
+
+/**
+ * The page's body text without ids, verse numbers or metadata, for matching quotations
+ */
+export const getChurchPagePlainText = (content: ChurchPageContent): string => {
+    return content.blocks.map(block => block.text).join('\n')
+}
+
+const formatBlock = (block: ChurchContentBlock): string => {
+    if (block.kind === 'heading') return `## ${block.text}`
+    const text = block.verse !== undefined ? `${block.verse} ${block.text}` : block.text
+    return block.id ? `[${block.id}] ${text}` : text
+}
+
+/**
+ * Formats a page for a prompt: metadata, then blocks prefixed with their paragraph id.
+ * Truncates to `maxChars` at a block boundary so no paragraph or verse is cut off.
+ */
+export const formatChurchPageContent = (content: ChurchPageContent, maxChars: number): string => {
+    const header = [
+        `Title: ${content.title}`,
+        content.author && `By: ${[content.author, content.authorRole].filter(Boolean).join(', ')}`,
+        content.date && `Date: ${content.date}`,
+        content.summary && `Summary: ${content.summary}`
+    ].filter(Boolean).join('\n')
+
+    let text = header
+    let included = 0
+    for (const block of content.blocks) {
+        const next = `${text}\n\n${formatBlock(block)}`
+        if (next.length > maxChars) break
+        text = next
+        included++
+    }
+
+    const omitted = content.blocks.length - included
+    return omitted > 0
+        ? `${text}\n\n[${omitted} more paragraph${omitted === 1 ? '' : 's'} not included]`
+        : text
+}
@@ -0,0 +1,31 @@
+// Display helpers for notification types in the notification center and settings
+
+import { NotificationType } from '@/lib/types/notifications'
+
+export const NOTIFICATION_TYPES: NotificationType[] = ['share_received', 'share_responded', 'comment_added', 'speaking_assignment']
+
+export const isNotificationType = (value: unknown): value is NotificationType => {
+    return typeof value === 'string' && (NOTIFICATION_TYPES as string[]).includes(value)
+}
+
+export const getNotificationTypeLabel = (type: NotificationType): string => {
+    const notificationTypeLabels: Record<NotificationType, string> = {
+        'share_received': 'Talks shared with me',
+        'share_responded': 'Responses to my shares',
+        'comment_added': 'Comments and suggestions',
+        'speaking_assignment': 'Speaking assignments'
+    }
+
+    return notificationTypeLabels[type] || type
+}
+
+export const getNotificationTypeDescription = (type: NotificationType): string => {
+    const notificationTypeDescriptions: Record<NotificationType, string> = {
+        'share_received': 'When someone shares a talk with you',
+        'share_responded': 'When someone accepts or declines a talk you shared',
+        'comment_added': 'When someone comments on your talk or replies in a discussion you joined',
+        'speaking_assignment': 'When someone asks you to give a talk they shared'
+    }
+
+    return notificationTypeDescriptions[type] || ''
+}
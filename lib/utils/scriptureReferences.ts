@@ -0,0 +1,311 @@
+// Scripture references for all the standard works: parsing, canonical formatting
+// and Gospel Library URLs. Accepts full names and the Church's standard abbreviations
+// ("1 Ne.", "D&C", "JS—H"), verse ranges and lists ("Alma 32:21, 27–28"), ranges that
+// cross chapters ("Alma 32:21–33:5") and chapter-only references ("Moroni 10").
+
+export type StandardWork = 'ot' | 'nt' | 'bofm' | 'dc-testament' | 'pgp'
+
+export interface ScriptureBook {
+    name: string // Canonical name, e.g. "1 Nephi"
+    abbreviation: string // Church style abbreviation, e.g. "1 Ne."
+    volume: StandardWork
+    slug: string // Path segment on churchofjesuschrist.org, e.g. "1-ne"
+    chapters: number
+}
+
+export interface VerseRange {
+    start: number
+    end: number
+}
+
+export interface ScriptureReference {
+    book: ScriptureBook
+    chapter: number
+    verses: VerseRange[] // Verses in `chapter`; empty for whole chapters and ranges that cross chapters
+    startVerse?: number // First verse of a range that runs into a later chapter
+    endChapter?: number // Last chapter of a range ("Alma 32–34", "Alma 32:21–33:5")
+    endVerse?: number // Verse in endChapter where the range stops
+}
+
+const SCRIPTURES_BASE_URL = 'https://www.churchofjesuschrist.org/study/scriptures'
+
+// [name, abbreviation, slug, chapters, extra aliases]
+type BookEntry = [string, string, string, number, string[]?]
+
+const BOOKS_BY_VOLUME: Record<StandardWork, BookEntry[]> = {
+    ot: [
+        ['Genesis', 'Gen.', 'gen', 50, ['Gn']],
+        ['Exodus', 'Ex.', 'ex', 40, ['Exod']],
+        ['Leviticus', 'Lev.', 'lev', 27],
+        ['Numbers', 'Num.', 'num', 36],
+        ['Deuteronomy', 'Deut.', 'deut', 34],
+        ['Joshua', 'Josh.', 'josh', 24],
+        ['Judges', 'Judg.', 'judg', 21],
+        ['Ruth', 'Ruth', 'ruth', 4],
+        ['1 Samuel', '1 Sam.', '1-sam', 31],
+        ['2 Samuel', '2 Sam.', '2-sam', 24],
+        ['1 Kings', '1 Kgs.', '1-kgs', 22],
+        ['2 Kings', '2 Kgs.', '2-kgs', 25],
+        ['1 Chronicles', '1 Chr.', '1-chr', 29, ['1 Chron']],
+        ['2 Chronicles', '2 Chr.', '2-chr', 36, ['2 Chron']],
+        ['Ezra', 'Ezra', 'ezra', 10],
+        ['Nehemiah', 'Neh.', 'neh', 13],
+        ['Esther', 'Esth.', 'esth', 10],
+        ['Job', 'Job', 'job', 42],
+        ['Psalm', 'Ps.', 'ps', 150, ['Psalms', 'Psa']],
+        ['Proverbs', 'Prov.', 'prov', 31],
+        ['Ecclesiastes', 'Eccl.', 'eccl', 12],
+        ['Song of Solomon', 'Song', 'song', 8, ['Song of Songs']],
+        ['Isaiah', 'Isa.', 'isa', 66],
+        ['Jeremiah', 'Jer.', 'jer', 52],
+        ['Lamentations', 'Lam.', 'lam', 5],
+        ['Ezekiel', 'Ezek.', 'ezek', 48],
+        ['Daniel', 'Dan.', 'dan', 12],
+        ['Hosea', 'Hosea', 'hosea', 14],
+        ['Joel', 'Joel', 'joel', 3],
+        ['Amos', 'Amos', 'amos', 9],
+        ['Obadiah', 'Obad.', 'obad', 1],
+        ['Jonah', 'Jonah', 'jonah', 4],
+        ['Micah', 'Micah', 'micah', 7],
+        ['Nahum', 'Nahum', 'nahum', 3],
+        ['Habakkuk', 'Hab.', 'hab', 3],
+        ['Zephaniah', 'Zeph.', 'zeph', 3],
+        ['Haggai', 'Hag.', 'hag', 2],
+        ['Zechariah', 'Zech.', 'zech', 14],
+        ['Malachi', 'Mal.', 'mal', 4]
+    ],
+    nt: [
+        ['Matthew', 'Matt.', 'matt', 28],
+        ['Mark', 'Mark', 'mark', 16],
+        ['Luke', 'Luke', 'luke', 24],
+        ['John', 'John', 'john', 21],
+        ['Acts', 'Acts', 'acts', 28],
+        ['Romans', 'Rom.', 'rom', 16],
+        ['1 Corinthians', '1 Cor.', '1-cor', 16],
+        ['2 Corinthians', '2 Cor.', '2-cor', 13],
+        ['Galatians', 'Gal.', 'gal', 6],
+        ['Ephesians', 'Eph.', 'eph', 6],
+        ['Philippians', 'Philip.', 'philip', 4, ['Phil']],
+        ['Colossians', 'Col.', 'col', 4],
+        ['1 Thessalonians', '1 Thes.', '1-thes', 5, ['1 Thess']],
+        ['2 Thessalonians', '2 Thes.', '2-thes', 3, ['2 Thess']],
+        ['1 Timothy', '1 Tim.', '1-tim', 6],
+        ['2 Timothy', '2 Tim.', '2-tim', 4],
+        ['Titus', 'Titus', 'titus', 3],
+        ['Philemon', 'Philem.', 'philem', 1],
+        ['Hebrews', 'Heb.', 'heb', 13],
+        ['James', 'James', 'james', 5, ['Jas']],
+        ['1 Peter', '1 Pet.', '1-pet', 5],
+        ['2 Peter', '2 Pet.', '2-pet', 3],
+        ['1 John', '1 Jn.', '1-jn', 5],
+        ['2 John', '2 Jn.', '2-jn', 1],
+        ['3 John', '3 Jn.', '3-jn', 1],
+        ['Jude', 'Jude', 'jude', 1],
+        ['Revelation', 'Rev.', 'rev', 22, ['Revelations']]
+    ],
+    bofm: [
+        ['1 Nephi', '1 Ne.', '1-ne', 22],
+        ['2 Nephi', '2 Ne.', '2-ne', 33],
+        ['Jacob', 'Jacob', 'jacob', 7],
+        ['Enos', 'Enos', 'enos', 1],
+        ['Jarom', 'Jarom', 'jarom', 1],
+        ['Omni', 'Omni', 'omni', 1],
+        ['Words of Mormon', 'W of M', 'w-of-m', 1],
+        ['Mosiah', 'Mosiah', 'mosiah', 29],
+        ['Alma', 'Alma', 'alma', 63],
+        ['Helaman', 'Hel.', 'hel', 16],
+        ['3 Nephi', '3 Ne.', '3-ne', 30],
+        ['4 Nephi', '4 Ne.', '4-ne', 1],
+        ['Mormon', 'Morm.', 'morm', 9],
+        ['Ether', 'Ether', 'ether', 15],
+        ['Moroni', 'Moro.', 'moro', 10]
+    ],
+    'dc-testament': [
+        ['Doctrine and Covenants', 'D&C', 'dc', 138, ['Doctrine & Covenants', 'D and C', 'DC']],
+        ['Official Declaration', 'OD', 'od', 2, ['Official Declarations']]
+    ],
+    pgp: [
+        ['Moses', 'Moses', 'moses', 8],
+        ['Abraham', 'Abr.', 'abr', 5],
+        ['Joseph Smith—Matthew', 'JS—M', 'js-m', 1, ['Joseph Smith Matthew']],
+        ['Joseph Smith—History', 'JS—H', 'js-h', 1, ['Joseph Smith History']],
+        ['Articles of Faith', 'A of F', 'a-of-f', 1]
+    ]
+}
+
+export const SCRIPTURE_BOOKS: ScriptureBook[] = (Object.keys(BOOKS_BY_VOLUME) as StandardWork[]).flatMap(volume =>
+    BOOKS_BY_VOLUME[volume].map(([name, abbreviation, slug, chapters]) => ({ name, abbreviation, volume, slug, chapters }))
+)
+
+const ORDINAL_WORDS: Record<string, string[]> = {
+    '1': ['First', '1st', 'I'],
+    '2': ['Second', '2nd', 'II'],
+    '3': ['Third', '3rd', 'III'],
+    '4': ['Fourth', '4th', 'IV']
+}
+
+// Lookup key for a book name as written: case, periods, spacing and dash style don't matter
+const toBookKey = (name: string): string => name.toLowerCase().replace(/[-–—]+/g, '-').replace(/[.\s]/g, '')
+
+const BOOK_ALIASES: Array<{ alias: string; book: ScriptureBook }> = (Object.keys(BOOKS_BY_VOLUME) as StandardWork[]).flatMap(volume =>
+    BOOKS_BY_VOLUME[volume].flatMap(([name, abbreviation, slug, , extraAliases = []]) => {
+        const book = SCRIPTURE_BOOKS.find(candidate => candidate.volume === volume && candidate.slug === slug)!
+        const aliases = [name, abbreviation.replace(/\.$/, ''), slug, ...extraAliases]
+
+        // "1 Nephi" can also be written "First Nephi", "1st Nephi" or "I Nephi"
+        const withOrdinals = aliases.flatMap(alias => {
+            const numbered = alias.match(/^([1-4])[\s-](.+)$/)
+            return numbered
+                ? [alias, ...ORDINAL_WORDS[numbered[1]].map(word => `${word} ${numbered[2]}`)]
+                : [alias]
+        })
+
+        return [...new Set(withOrdinals)].map(alias => ({ alias, book }))
+    })
+)
+
+const BOOKS_BY_KEY = new Map(BOOK_ALIASES.map(({ alias, book }) => [toBookKey(alias), book]))
+
+// Regex source for one alias that tolerates the spacing and punctuation variations toBookKey ignores
+const toAliasPattern = (alias: string): string => alias
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\s*[-–—]\s*/g, '\\s*[-–—]+\\s*')
+    .replace(/\s*&\s*/g, '\\s*&\\s*')
+    .replace(/\s+/g, '\\s*')
+
+// Longest first so "1 John" wins over "John" and "Words of Mormon" over "Mormon"
+const BOOK_PATTERN = [...new Set(BOOK_ALIASES.map(({ alias }) => alias))]
+    .sort((a, b) => b.length - a.length)
+    .map(toAliasPattern)
+    .join('|')
+
+const DASH = '\\s*[-–—]\\s*'
+
+// A verse list stops where the next reference starts, so "John 3:16, 2 Nephi 2:25" is two references
+const NOT_A_REFERENCE = `(?!(?:${BOOK_PATTERN})\\.?\\s*\\d)`
+
+// Chapter, then optionally verses: "32", "32–34", "32:21", "32:21–23", "32:21, 27–28", "32:21–33:5"
+const LOCATION_PATTERN = `(\\d+)(?:${DASH}(\\d+)(?!\\s*:))?(?::(\\d+(?:${DASH}\\d+(?::\\d+)?)?(?:\\s*,\\s*${NOT_A_REFERENCE}\\d+(?:${DASH}\\d+)?)*))?`
+
+const REFERENCE_SOURCE = `(?<![\\w])(${BOOK_PATTERN})\\.?\\s*${LOCATION_PATTERN}(?![\\w:])`
+
+/**
+ * Finds a book by its name or any accepted abbreviation, e.g. "1 Ne." or "Doctrine and Covenants"
+ */
+export const findScriptureBook = (name: string): ScriptureBook | null => BOOKS_BY_KEY.get(toBookKey(name)) || null
+
+/**
+ * Parses one reference such as "Alma 32:21, 27" or "D&C 121". Returns null for
+ * anything that isn't a reference to an existing book and chapter.
+ */
+export const parseScriptureReference = (text: string): ScriptureReference | null => {
+    const match = text.trim().replace(/\.$/, '').match(new RegExp(`^${REFERENCE_SOURCE}$`, 'i'))
+    return match ? toReference(match) : null
+}
+
+/**
+ * Finds every scripture reference in free text. Outside the Doctrine and Covenants,
+ * references need a verse so words like "Mark" or "Job" followed by a number aren't mistaken for them.
+ */
+export const findScriptureReferences = (text: string): Array<{ reference: ScriptureReference; text: string }> => {
+    const found: Array<{ reference: ScriptureReference; text: string }> = []
+
+    for (const match of text.matchAll(new RegExp(REFERENCE_SOURCE, 'gi'))) {
+        const reference = toReference(match)
+        if (!reference) continue
+
+        const hasVerse = reference.verses.length > 0 || reference.startVerse !== undefined
+        if (!hasVerse && reference.book.volume !== 'dc-testament') continue
+
+        found.push({ reference, text: match[0] })
+    }
+
+    return found
+}
+
+/**
+ * Formats a reference the way the Church writes it, e.g. "Alma 32:21, 27–28"
+ */
+export const formatScriptureReference = (reference: ScriptureReference, options: { abbreviate?: boolean } = {}): string => {
+    const bookName = options.abbreviate ? reference.book.abbreviation : reference.book.name
+    let location = `${reference.chapter}`
+
+    if (reference.endChapter !== undefined) {
+        location = reference.startVerse !== undefined
+            ? `${reference.chapter}:${reference.startVerse}–${reference.endChapter}${reference.endVerse !== undefined ? `:${reference.endVerse}` : ''}`
+            : `${reference.chapter}–${reference.endChapter}`
+    } else if (reference.verses.length > 0) {
+        location += `:${reference.verses.map(range => range.start === range.end ? `${range.start}` : `${range.start}–${range.end}`).join(', ')}`
+    }
+
+    return `${bookName} ${location}`
+}
+
+/**
+ * Builds the Gospel Library URL for a reference, highlighting and jumping to its verses
+ */
+export const buildScriptureUrl = (reference: ScriptureReference): string => {
+    const url = `${SCRIPTURES_BASE_URL}/${reference.book.volume}/${reference.book.slug}/${reference.chapter}?lang=eng`
+
+    if (reference.verses.length > 0) {
+        const id = reference.verses
+            .map(range => range.start === range.end ? `p${range.start}` : `p${range.start}-p${range.end}`)
+            .join(',')
+        return `${url}&id=${id}#p${reference.verses[0].start}`
+    }
+
+    if (reference.startVerse !== undefined) {
+        return `${url}&id=p${reference.startVerse}#p${reference.startVerse}`
+    }
+
+    return url
+}
+
+const toReference = (match: RegExpMatchArray): ScriptureReference | null => {
+    const [, bookText, chapterText, endChapterText, verseText] = match
+    const book = BOOKS_BY_KEY.get(toBookKey(bookText))
+    if (!book) return null
+
+    let chapter = Number(chapterText)
+    let verses: VerseRange[] = []
+    let startVerse: number | undefined
+    let endChapter: number | undefined
+    let endVerse: number | undefined
+
+    if (verseText) {
+        const crossChapter = verseText.match(new RegExp(`^(\\d+)${DASH}(\\d+):(\\d+)$`))
+        if (crossChapter) {
+            startVerse = Number(crossChapter[1])
+            endChapter = Number(crossChapter[2])
+            endVerse = Number(crossChapter[3])
+        } else if (verseText.includes(':')) {
+            return null // A chapter in the middle of a verse list
+        } else {
+            verses = verseText.split(',').map(part => {
+                const [start, end] = part.split(new RegExp(DASH)).map(Number)
+                return { start, end: end ?? start }
+            })
+        }
+    } else if (endChapterText) {
+        endChapter = Number(endChapterText)
+    } else if (book.chapters === 1 && chapter > 1) {
+        // "Jude 3" and "Enos 5" name verses of a one-chapter book
+        verses = [{ start: chapter, end: chapter }]
+        chapter = 1
+    }
+
+    const reference: ScriptureReference = { book, chapter, verses, startVerse, endChapter, endVerse }
+    return isValidReference(reference) ? reference : null
+}
+
+const isValidReference = (reference: ScriptureReference): boolean => {
+    const { book, chapter, verses, startVerse, endChapter, endVerse } = reference
+
+    if (chapter < 1 || chapter > book.chapters) return false
+    if (verses.some(range => range.start < 1 || range.end < range.start)) return false
+    if (startVerse !== undefined && startVerse < 1) return false
+    if (endVerse !== undefined && endVerse < 1) return false
+    if (endChapter !== undefined && (endChapter <= chapter || endChapter > book.chapters)) return false
+
+    return true
+}
@@ -0,0 +1,43 @@
+// Helpers for what a user may do with a talk they own or that was shared with them
+
+import { SharePermission, TalkAccess } from '@/lib/types/talks/sharing'
+
+export const SHARE_PERMISSIONS: SharePermission[] = ['view', 'comment', 'edit']
+
+export const isSharePermission = (value: unknown): value is SharePermission => {
+    return typeof value === 'string' && (SHARE_PERMISSIONS as string[]).includes(value)
+}
+
+// Share permissions that grant at least the given one, e.g. 'comment' is granted by 'comment' and 'edit'
+export const getPermissionsGranting = (permission: SharePermission): SharePermission[] => {
+    return SHARE_PERMISSIONS.slice(SHARE_PERMISSIONS.indexOf(permission))
+}
+
+export const getSharePermissionLabel = (permission: SharePermission): string => {
+    const sharePermissionLabels: Record<SharePermission, string> = {
+        'view': 'Can view',
+        'comment': 'Can comment',
+        'edit': 'Can edit'
+    }
+
+    return sharePermissionLabels[permission] || permission
+}
+
+// Speaking dates are stored at midnight UTC, so they're shown in UTC to keep the day from shifting
+export const formatSpeakingDate = (date: Date): string => {
+    return new Date(date).toLocaleDateString('en-US', {
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        timeZone: 'UTC'
+    })
+}
+
+export const canEditTalk = (access?: TalkAccess): boolean => {
+    return access?.level === 'owner' || access?.level === 'edit'
+}
+
+export const canCommentOnTalk = (access?: TalkAccess): boolean => {
+    return canEditTalk(access) || access?.level === 'comment'
+}
@@ -0,0 +1,93 @@
+// Talk content is stored as plain text with paragraphs separated by blank lines
+
+export const splitTalkParagraphs = (content: string): string[] => {
+    return content
+        .split(/\n\s*\n/)
+        .map(paragraph => paragraph.trim())
+        .filter(paragraph => paragraph.length > 0)
+}
+
+export const joinTalkParagraphs = (paragraphs: string[]): string => {
+    return paragraphs.join('\n\n')
+}
+
+export interface TalkSections {
+    body: string[] // Paragraphs that may be rewritten
+    testimony: string[] // The speaker's own testimony
+    closing: string[] // "In the name of Jesus Christ, Amen." and the Sources list
+}
+
+const CLOSING_PARAGRAPH_PATTERNS = [
+    /^In the name of Jesus Christ,?\s*Amen\.?$/i,
+    /^Sources:?(\s|$)/i,
+    /^-\s*https?:\/\//i
+]
+
+// Share of a paragraph's words that must appear in the testimony for it to count as testimony
+const TESTIMONY_OVERLAP_THRESHOLD = 0.6
+
+/**
+ * Splits talk content into the body, the speaker's testimony and the closing.
+ * Without a testimony to match, the last paragraph before the closing is treated as the testimony.
+ */
+export const splitTalkSections = (content: string, testimony?: string): TalkSections => {
+    const paragraphs = splitTalkParagraphs(content)
+
+    let closingStart = paragraphs.length
+    while (closingStart > 0 && CLOSING_PARAGRAPH_PATTERNS.some(pattern => pattern.test(paragraphs[closingStart - 1]))) {
+        closingStart--
+    }
+
+    let testimonyStart = closingStart
+    if (testimony?.trim()) {
+        while (testimonyStart > 0 && getWordOverlap(paragraphs[testimonyStart - 1], testimony) >= TESTIMONY_OVERLAP_THRESHOLD) {
+            testimonyStart--
+        }
+    }
+    if (testimonyStart === closingStart && closingStart > 1) {
+        testimonyStart = closingStart - 1
+    }
+
+    return {
+        body: paragraphs.slice(0, testimonyStart),
+        testimony: paragraphs.slice(testimonyStart, closingStart),
+        closing: paragraphs.slice(closingStart)
+    }
+}
+
+const toWords = (text: string): string[] => {
+    return text.toLowerCase().match(/[a-z0-9']+/g) || []
+}
+
+/**
+ * Fraction of the words in text that also appear in reference (0-1)
+ */
+export const getWordOverlap = (text: string, reference: string): number => {
+    const words = toWords(text)
+    if (words.length === 0) return 0
+
+    const referenceWords = new Set(toWords(reference))
+    return words.filter(word => referenceWords.has(word)).length / words.length
+}
+
+export const countWords = (text: string): number => {
+    return text.split(/\s+/).filter(word => word.length > 0).length
+}
+
+/**
+ * Finds where a run of paragraphs sits in the talk now, preferring the position it was last
+ * seen at so repeated text resolves to the nearest copy. Returns null once any of them changed.
+ */
+export const locatePassage = (paragraphs: string[], passage: string[], expectedStart: number): number | null => {
+    if (passage.length === 0) return null
+
+    const matchesAt = (start: number): boolean => passage.every((paragraph, index) => paragraphs[start + index] === paragraph)
+
+    let best: number | null = null
+    for (let start = 0; start + passage.length <= paragraphs.length; start++) {
+        if (matchesAt(start) && (best === null || Math.abs(start - expectedStart) < Math.abs(best - expectedStart))) {
+            best = start
+        }
+    }
+    return best
+}
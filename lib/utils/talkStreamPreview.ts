@@ -0,0 +1,61 @@
+// Live preview of a talk while the provider is still streaming its JSON response.
+// The partial object is never valid JSON, so the string values are read directly.
+
+/**
+ * Converts streamed output into "title\n\nparagraph\n\n..." text.
+ * Output that isn't JSON (heuristic fallback responses) is returned unchanged.
+ */
+export const getStreamingTalkPreview = (streamed: string): string => {
+    const text = streamed.trimStart().replace(/^```(?:json)?\s*/i, '')
+    if (!text.startsWith('{')) {
+        return streamed
+    }
+
+    const title = readStringField(text, 'title') ?? ''
+    const paragraphs = readStringArrayField(text, 'paragraphs')
+    const testimony = readStringField(text, 'testimony')
+
+    const body = [...paragraphs, testimony].filter((section): section is string => !!section)
+    return body.length > 0 ? `${title}\n\n${body.join('\n\n')}` : title
+}
+
+// Matches a JSON string body, including one cut off mid-stream
+const PARTIAL_STRING = '"((?:[^"\\\\]|\\\\.)*)'
+
+const readStringField = (text: string, field: string): string | null => {
+    const match = text.match(new RegExp(`"${field}"\\s*:\\s*${PARTIAL_STRING}`))
+    return match ? decodePartialString(match[1]) : null
+}
+
+const readStringArrayField = (text: string, field: string): string[] => {
+    const start = text.match(new RegExp(`"${field}"\\s*:\\s*\\[`))
+    if (!start || start.index === undefined) {
+        return []
+    }
+
+    const values: string[] = []
+    const itemPattern = new RegExp(`^\\s*,?\\s*${PARTIAL_STRING}(")?`)
+    let rest = text.slice(start.index + start[0].length)
+
+    while (true) {
+        const item = rest.match(itemPattern)
+        if (!item) break
+
+        values.push(decodePartialString(item[1]))
+        if (!item[2]) break // Still streaming this item
+
+        rest = rest.slice(item[0].length)
+    }
+
+    return values
+}
+
+const decodePartialString = (raw: string): string => {
+    // Drop an escape sequence that was cut off at the end of the chunk
+    const complete = raw.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '')
+    try {
+        return JSON.parse(`"${complete}"`)
+    } catch {
+        return complete
+    }
+}
@@ -0,0 +1,102 @@
+// Checks that the closing of a generated talk uses the speaker's own testimony.
+// The prompt allows grammar and spelling fixes only, so each testimony sentence
+// should have a near-identical sentence in the closing.
+
+export interface TestimonyFidelityResult {
+    drift: number // 0 when every sentence matches, higher as sentences are altered, missing or invented
+    alteredSentences: Array<{ original: string; generated: string }>
+    missingSentences: string[] // Testimony sentences with no counterpart in the closing
+    addedSentences: string[] // Closing sentences that are not in the testimony
+}
+
+// Sentence similarity at or above which a sentence counts as the same (grammar fixes only)
+const SENTENCE_MATCH_THRESHOLD = 0.8
+
+// Below this a sentence is treated as missing or invented rather than altered
+const SENTENCE_RELATED_THRESHOLD = 0.5
+
+// Drift above which the closing is rebuilt from the speaker's testimony
+export const TESTIMONY_DRIFT_THRESHOLD = 0.25
+
+// Lets the UI pick the fidelity warning out of the other generation warnings
+export const TESTIMONY_WARNING_PREFIX = 'Testimony check:'
+
+const splitSentences = (text: string): string[] => {
+    return text
+        .replace(/\s+/g, ' ')
+        .split(/(?<=[.!?])\s+/)
+        .map(sentence => sentence.trim())
+        .filter(sentence => /[a-z0-9]/i.test(sentence))
+}
+
+const toWords = (text: string): string[] => {
+    return text.toLowerCase().match(/[a-z0-9']+/g) || []
+}
+
+/**
+ * Dice similarity of the two sentences' words (0-1)
+ */
+const getSentenceSimilarity = (a: string, b: string): number => {
+    const wordsA = toWords(a)
+    const wordsB = toWords(b)
+    if (wordsA.length === 0 || wordsB.length === 0) return 0
+
+    const remaining = [...wordsB]
+    let common = 0
+    for (const word of wordsA) {
+        const index = remaining.indexOf(word)
+        if (index !== -1) {
+            common++
+            remaining.splice(index, 1)
+        }
+    }
+
+    return (2 * common) / (wordsA.length + wordsB.length)
+}
+
+/**
+ * Aligns each testimony sentence with its closest sentence in the closing
+ */
+export const checkTestimonyFidelity = (closing: string, testimony: string): TestimonyFidelityResult => {
+    const testimonySentences = splitSentences(testimony)
+    const closingSentences = splitSentences(closing)
+    const usedClosingSentences = new Set<number>()
+
+    const alteredSentences: TestimonyFidelityResult['alteredSentences'] = []
+    const missingSentences: string[] = []
+
+    for (const original of testimonySentences) {
+        let bestIndex = -1
+        let bestScore = 0
+        closingSentences.forEach((generated, index) => {
+            if (usedClosingSentences.has(index)) return
+            const score = getSentenceSimilarity(original, generated)
+            if (score > bestScore) {
+                bestScore = score
+                bestIndex = index
+            }
+        })
+
+        if (bestScore >= SENTENCE_RELATED_THRESHOLD) {
+            usedClosingSentences.add(bestIndex)
+            if (bestScore < SENTENCE_MATCH_THRESHOLD) {
+                alteredSentences.push({ original, generated: closingSentences[bestIndex] })
+            }
+        } else {
+            missingSentences.push(original)
+        }
+    }
+
+    // The closing line itself is expected, not invented
+    const addedSentences = closingSentences.filter((sentence, index) =>
+        !usedClosingSentences.has(index) && !/^In the name of Jesus Christ,?\s*Amen\.?$/i.test(sentence)
+    )
+
+    const changes = alteredSentences.length + missingSentences.length + addedSentences.length
+    return {
+        drift: testimonySentences.length > 0 ? changes / testimonySentences.length : 0,
+        alteredSentences,
+        missingSentences,
+        addedSentences
+    }
+}
@@ -0,0 +1,36 @@
+// Display helpers for security violations in the moderation dashboard
+
+export const SEVERITY_LEVELS = ['low', 'medium', 'high', 'critical']
+
+export const getViolationTypeLabel = (type: string): string => {
+    const violationTypeLabels: Record<string, string> = {
+        'inappropriate_content': 'Inappropriate content',
+        'manipulation_attempt': 'Manipulation attempt',
+        'spam': 'Spam',
+        'policy_violation': 'Policy violation'
+    }
+
+    return violationTypeLabels[type] || type
+}
+
+export const getSeverityBadgeClass = (severity: string): string => {
+    const severityBadgeClasses: Record<string, string> = {
+        'low': 'bg-gray-100 text-gray-700 border-gray-200',
+        'medium': 'bg-yellow-100 text-yellow-800 border-yellow-200',
+        'high': 'bg-orange-100 text-orange-800 border-orange-200',
+        'critical': 'bg-red-100 text-red-800 border-red-200'
+    }
+
+    return severityBadgeClasses[severity] || severityBadgeClasses.low
+}
+
+export const getSeverityBarClass = (severity: string): string => {
+    const severityBarClasses: Record<string, string> = {
+        'low': 'bg-gray-400',
+        'medium': 'bg-yellow-400',
+        'high': 'bg-orange-500',
+        'critical': 'bg-red-600'
+    }
+
+    return severityBarClasses[severity] || severityBarClasses.low
+}
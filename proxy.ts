@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { prisma } from './lib/db'
+import { SESSION_COOKIE_NAME, verifySessionToken } from './lib/security/sessionToken'
+import { ADMIN_AREA_ROLE, hasRequiredRole } from './lib/security/roles'
 
 /**
  * Simplified middleware for Next.js 16 - Authentication and Security Headers only
@@ -50,34 +53,47 @@ export default async function proxy(request: NextRequest) {
  */
 async function handleAuthentication(request: NextRequest, pathname: string) {
     // Get session cookie
-    const sessionCookie = request.cookies.get('session')
+    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)
 
-    // Protected routes that require authentication
-    const protectedRoutes = ['/dashboard', '/settings', '/generate', '/questionnaire', '/talks', '/talk', '/shared-talks']
+    // Protected routes that require authentication. Public share links (/share/[token])
+    // are left out on purpose: they're opened by people without an account.
+    const protectedRoutes = ['/dashboard', '/settings', '/generate', '/questionnaire', '/talks', '/talk', '/shared-talks', '/notifications', '/admin']
+
+    // Routes that also require a moderator or admin role
+    const adminRoutes = ['/admin']
 
     // Auth routes that should redirect if already logged in
     const authRoutes = ['/auth/login', '/auth/register']
 
     const isProtectedRoute = protectedRoutes.some(route => pathname.startsWith(route))
     const isAuthRoute = authRoutes.some(route => pathname.startsWith(route))
+    const isAdminRoute = adminRoutes.some(route => pathname === route || pathname.startsWith(`${route}/`))
 
-    // Check if user has a valid session
-    let isAuthenticated = false
-    if (sessionCookie) {
-        try {
-            const sessionData = JSON.parse(Buffer.from(sessionCookie.value, 'base64').toString())
-            isAuthenticated = Date.now() < sessionData.expires
-        } catch {
-            // Invalid session cookie
-            isAuthenticated = false
-        }
+    // Only look the session up when the route depends on it
+    if (!isProtectedRoute && !isAuthRoute) {
+        return null
     }
 
+    // Check if user has a valid session
+    const activeSession = await getActiveSession(sessionCookie?.value)
+    const isAuthenticated = !!activeSession
+
     // Redirect unauthenticated users from protected routes
     if (isProtectedRoute && !isAuthenticated) {
         const loginUrl = new URL('/auth/login', request.url)
         loginUrl.searchParams.set('redirect', pathname)
-        return NextResponse.redirect(loginUrl)
+        const redirectResponse = NextResponse.redirect(loginUrl)
+
+        // Drop a forged, expired or revoked cookie
+        if (sessionCookie) {
+            redirectResponse.cookies.delete(SESSION_COOKIE_NAME)
+        }
+        return redirectResponse
+    }
+
+    // Send signed-in users without the required role back to their dashboard
+    if (isAdminRoute && !hasRequiredRole(activeSession?.role, ADMIN_AREA_ROLE)) {
+        return NextResponse.redirect(new URL('/dashboard', request.url))
     }
 
     // Redirect authenticated users from auth routes
@@ -88,7 +104,31 @@ async function handleAuthentication(request: NextRequest, pathname: string) {
     return null
 }
 
+/**
+ * Checks the cookie's signature and that its Session row hasn't been revoked or expired.
+ * Returns the session owner's role, or null when there is no active session.
+ */
+async function getActiveSession(token: string | undefined): Promise<{ role: string } | null> {
+    const payload = await verifySessionToken(token)
+    if (!payload) {
+        return null
+    }
+
+    try {
+        const session = await prisma.session.findUnique({
+            where: { id: payload.sessionId },
+            select: { expiresAt: true, revokedAt: true, user: { select: { role: true } } }
+        })
 
+        if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+            return null
+        }
+        return { role: session.user.role }
+    } catch (error) {
+        console.error('Session lookup error:', error)
+        return null
+    }
+}
 
 /**
  * Adds comprehensive security headers to the response
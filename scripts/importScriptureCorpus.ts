@@ -0,0 +1,70 @@
+// Imports the standard works into the ScriptureVerse table.
+//
+// Reads the public-domain lds-scriptures JSON export (https://github.com/beandog/lds-scriptures),
+// a flat array with one object per verse:
+//   { "book_title": "1 Nephi", "chapter_number": 3, "verse_number": 7, "scripture_text": "..." }
+//
+// Usage: bun run scriptures:import path/to/lds-scriptures.json
+// Re-running replaces the whole corpus.
+
+import { readFile } from 'fs/promises'
+import { PrismaClient } from '@prisma/client'
+import { findScriptureBook } from '../lib/utils/scriptureReferences'
+
+const BATCH_SIZE = 2000
+
+interface CorpusVerse {
+    book_title: string
+    chapter_number: number
+    verse_number: number
+    scripture_text: string
+}
+
+async function main() {
+    const corpusPath = process.argv[2]
+    if (!corpusPath) {
+        throw new Error('Pass the path to the lds-scriptures JSON export, e.g. bun run scriptures:import prisma/data/lds-scriptures.json')
+    }
+    const corpus = JSON.parse(await readFile(corpusPath, 'utf8')) as CorpusVerse[]
+
+    const unknownBooks = new Set<string>()
+    const rows = corpus.flatMap(verse => {
+        const book = findScriptureBook(verse.book_title)
+        if (!book) {
+            unknownBooks.add(verse.book_title)
+            return []
+        }
+        return [{
+            volume: book.volume,
+            book: book.slug,
+            chapter: Number(verse.chapter_number),
+            verse: Number(verse.verse_number),
+            text: verse.scripture_text.trim()
+        }]
+    })
+
+    if (unknownBooks.size > 0) {
+        console.warn(`Skipped verses from unrecognized books: ${[...unknownBooks].join(', ')}`)
+    }
+    if (rows.length === 0) {
+        throw new Error(`No verses found in ${corpusPath}`)
+    }
+
+    const prisma = new PrismaClient()
+    try {
+        await prisma.$transaction(async (tx) => {
+            await tx.scriptureVerse.deleteMany()
+            for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+                await tx.scriptureVerse.createMany({ data: rows.slice(start, start + BATCH_SIZE) })
+                console.log(`Imported ${Math.min(start + BATCH_SIZE, rows.length)} of ${rows.length} verses`)
+            }
+        }, { timeout: 10 * 60 * 1000 })
+    } finally {
+        await prisma.$disconnect()
+    }
+}
+
+main().catch(error => {
+    console.error('Scripture import failed:', error)
+    process.exit(1)
+})